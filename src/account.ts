@@ -1,20 +1,45 @@
 /**
- * Para Wallet → x402 Signer Adapter
+ * Wallet → x402 Signer Adapters
  *
- * Bridges Para's remote key custody (via clara-proxy) with the @x402 SDK's
- * ClientEvmSigner interface. The SDK calls signTypedData() with EIP-712
- * typed data; we hash client-side and send the hash to clara-proxy's
- * sign-raw endpoint for signing by the Para-managed key.
+ * Implementations of the @x402 SDK's ClientEvmSigner interface. The SDK calls
+ * signTypedData() with EIP-712 typed data; each backend signs it differently:
  *
- * This is the same pattern as clara-mcp's account.ts: hashTypedData → signRawHash
+ * - para:     hash client-side, send the hash to clara-proxy's sign-raw
+ *             endpoint for signing by the Para-managed key
+ *             (same pattern as clara-mcp's account.ts: hashTypedData → signRawHash)
+ * - keystore: decrypt a local V3 keystore and sign with viem, fully offline
+ * - rpc:      delegate to an external JSON-RPC signer (Frame, Clef, a signing
+ *             sidecar) via eth_signTypedData_v4
+ *
+ * The backend is selected by the `signer` field in wallet.json.
  */
 
-import { hashTypedData, type Hex } from 'viem';
+import { hashTypedData, getTypesForEIP712Domain, recoverTypedDataAddress, type Hex, type TypedDataDefinition, type TypedDataDomain } from 'viem';
+import { privateKeyToAccount, type PrivateKeyAccount } from 'viem/accounts';
 import type { ClientEvmSigner } from '@x402/evm';
+import { readFileSync } from 'fs';
+import { homedir } from 'os';
 import { getSession, signRequest } from './session.js';
+import { decryptKeystore } from './keystore.js';
+import type { WalletData } from './wallet.js';
 
 const CLARA_PROXY = 'https://clara-proxy.bflynn-me.workers.dev';
 
+/** Create the signer selected in wallet.json (Para unless configured otherwise). */
+export function createSigner(wallet: WalletData): ClientEvmSigner {
+  const signer = wallet.signer ?? { type: 'para' };
+  switch (signer.type) {
+    case 'para':
+      return createParaSigner(wallet.walletId, wallet.address);
+    case 'keystore':
+      return createKeystoreSigner(signer.path, wallet.address);
+    case 'rpc':
+      return createRpcSigner(signer.url, wallet.address, signer.headers);
+    default:
+      throw new Error(`Unknown signer type in wallet.json: ${(signer as { type: string }).type}`);
+  }
+}
+
 /**
  * Create a ClientEvmSigner that signs via clara-proxy's sign-raw endpoint.
  *
@@ -67,3 +92,120 @@ export function createParaSigner(walletId: string, address: string): ClientEvmSi
     },
   };
 }
+
+/** Keystores decrypted in this process, by path. A failed unlock is dropped so it can be retried. */
+const unlocked = new Map<string, Promise<PrivateKeyAccount>>();
+
+function unlockKeystore(keystorePath: string, password: string): Promise<PrivateKeyAccount> {
+  let account = unlocked.get(keystorePath);
+  if (!account) {
+    account = (async () => {
+      const keystore = JSON.parse(readFileSync(keystorePath, 'utf-8'));
+      return privateKeyToAccount(await decryptKeystore(keystore, password));
+    })();
+    account.catch(() => unlocked.delete(keystorePath));
+    unlocked.set(keystorePath, account);
+  }
+  return account;
+}
+
+/**
+ * Create a ClientEvmSigner backed by a local V3 keystore file.
+ *
+ * The keystore is decrypted with SIGNAL402_KEYSTORE_PASSWORD on the first
+ * signature, once per process, and signing happens in-process with viem —
+ * no network, no custody provider.
+ */
+export function createKeystoreSigner(path: string, address: string): ClientEvmSigner {
+  const password = process.env.SIGNAL402_KEYSTORE_PASSWORD;
+  if (password == null) {
+    throw new Error(`SIGNAL402_KEYSTORE_PASSWORD is not set — needed to unlock ${path}`);
+  }
+  const keystorePath = path.startsWith('~/') ? homedir() + path.slice(1) : path;
+
+  return {
+    address: address as `0x${string}`,
+    async signTypedData(typedData) {
+      const account = await unlockKeystore(keystorePath, password);
+      if (account.address.toLowerCase() !== address.toLowerCase()) {
+        throw new Error(`Keystore ${path} holds ${account.address}, but wallet.json says ${address}`);
+      }
+      return account.signTypedData(typedData as Parameters<typeof account.signTypedData>[0]);
+    },
+  };
+}
+
+/**
+ * Create a ClientEvmSigner that delegates to an external JSON-RPC signer.
+ *
+ * Sends eth_signTypedData_v4 with the full EIP-712 payload (EIP712Domain type
+ * included, bigints as decimal strings) so the key stays in the team's own
+ * signing infrastructure. The returned signature is checked against `address`.
+ */
+export function createRpcSigner(url: string, address: string, headers?: Record<string, string>): ClientEvmSigner {
+  return {
+    address: address as `0x${string}`,
+
+    async signTypedData(typedData) {
+      // The SDK hands over plain EIP-712 JSON; viem's type is the same shape, checked more strictly
+      const definition = typedData as TypedDataDefinition;
+      const domain = typedData.domain as TypedDataDomain;
+      const payload = {
+        domain,
+        types: {
+          EIP712Domain: getTypesForEIP712Domain({ domain }),
+          ...typedData.types,
+        },
+        primaryType: typedData.primaryType,
+        message: typedData.message,
+      };
+
+      const sig = await rpcCall<Hex>(url, 'eth_signTypedData_v4', [address, jsonWithBigInts(payload)], headers);
+      if (typeof sig !== 'string' || !sig.startsWith('0x')) {
+        throw new Error(`eth_signTypedData_v4 returned an invalid signature: ${JSON.stringify(sig)}`);
+      }
+
+      // Guard against the daemon signing with a different account than wallet.json expects
+      const recovered = await recoverTypedDataAddress({ ...definition, signature: sig });
+      if (recovered.toLowerCase() !== address.toLowerCase()) {
+        throw new Error(`RPC signer signed as ${recovered}, expected ${address}`);
+      }
+
+      return sig;
+    },
+  };
+}
+
+interface JsonRpcResponse<T> {
+  result?: T;
+  error?: { code: number; message: string };
+}
+
+/**
+ * Minimal JSON-RPC 2.0 call. Exported for account discovery (eth_accounts).
+ * `T` is what the method should return; the caller still checks it.
+ */
+export async function rpcCall<T = unknown>(
+  url: string,
+  method: string,
+  params: unknown[],
+  headers?: Record<string, string>,
+): Promise<T | undefined> {
+  const res = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify({ jsonrpc: '2.0', id: Date.now(), method, params }),
+  });
+  if (!res.ok) {
+    throw new Error(`${method} failed: ${res.status} — ${await res.text()}`);
+  }
+
+  const data = (await res.json()) as JsonRpcResponse<T>;
+  if (data.error) throw new Error(`${method} failed: ${data.error.code} ${data.error.message}`);
+  return data.result;
+}
+
+/** JSON.stringify that encodes bigints (EIP-712 uint values) as decimal strings. */
+function jsonWithBigInts(value: unknown): string {
+  return JSON.stringify(value, (_key, v) => (typeof v === 'bigint' ? v.toString() : v));
+}
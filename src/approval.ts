@@ -0,0 +1,98 @@
+/**
+ * Human-in-the-Loop Payment Approval
+ *
+ * Optional policy (config.json → approval) that pauses a payment and asks the
+ * user to confirm it: above a USD threshold, and/or the first time an origin
+ * is paid. The MCP server asks through elicitation; clients without
+ * elicitation get a structured "approval required" error instead.
+ */
+
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { loadConfig } from './config.js';
+import { readLedger, isSpent, pendingPayments } from './ledger.js';
+
+export interface ApprovalRequest {
+  url: string;
+  tool: string;
+  amount_usd: number;
+  amount_formatted: string; // e.g. "0.01 USDC"
+  network: string;
+  asset: string;
+  pay_to: string;
+  reasons: string[];
+}
+
+export type ApprovalDecision = 'approved' | 'declined' | 'unsupported';
+export type Approver = (request: ApprovalRequest) => Promise<ApprovalDecision>;
+
+/** Thrown by x402Fetch when a payment needs approval and nobody could give it. */
+export class ApprovalRequiredError extends Error {
+  constructor(public readonly request: ApprovalRequest) {
+    super(`Approval required: ${request.reasons.join('; ')}`);
+    this.name = 'ApprovalRequiredError';
+  }
+}
+
+// ── Policy ──────────────────────────────────────
+
+function originOf(url: string): string | null {
+  try {
+    return new URL(url).origin;
+  } catch {
+    return null;
+  }
+}
+
+/** Why a payment needs approval under the configured policy. Empty = no approval needed. */
+export function approvalReasons(url: string, costUsd: number): string[] {
+  const approval = loadConfig().approval;
+  if (!approval) return [];
+
+  const reasons: string[] = [];
+  if (approval.threshold_usd != null && costUsd > approval.threshold_usd) {
+    reasons.push(`$${costUsd.toFixed(4)} is above the approval threshold of $${approval.threshold_usd}`);
+  }
+  if (approval.new_origins) {
+    const origin = originOf(url);
+    // A payment already cleared for this origin and still in flight counts, as it will once it's in the ledger
+    const paidBefore = readLedger().some(e => isSpent(e) && originOf(e.url) === origin)
+      || pendingPayments().some(p => p.approved && originOf(p.url) === origin);
+    if (!paidBefore) reasons.push(`${origin ?? url} has never been paid from this wallet`);
+  }
+  return reasons;
+}
+
+// ── MCP Elicitation ─────────────────────────────
+
+/**
+ * Approver that asks the user through MCP elicitation.
+ * Returns 'unsupported' when the connected client can't show a form: it
+ * doesn't elicit at all, or only supports URL-mode elicitation.
+ */
+export function createElicitationApprover(server: Server): Approver {
+  return async (request) => {
+    // An empty elicitation capability predates modes and means form
+    const elicitation = server.getClientCapabilities()?.elicitation;
+    if (!elicitation || !(elicitation.form || Object.keys(elicitation).length === 0)) return 'unsupported';
+
+    const result = await server.elicitInput({
+      message: [
+        `Approve x402 payment of $${request.amount_usd.toFixed(4)} (${request.amount_formatted})?`,
+        '',
+        `URL: ${request.url}`,
+        `Pay to: ${request.pay_to} (${request.network})`,
+        `Requested by: ${request.tool}`,
+        `Why you're asked: ${request.reasons.join('; ')}`,
+      ].join('\n'),
+      requestedSchema: {
+        type: 'object',
+        properties: {
+          approve: { type: 'boolean', title: 'Approve payment', description: 'Sign and send this payment' },
+        },
+        required: ['approve'],
+      },
+    });
+
+    return result.action === 'accept' && result.content?.approve === true ? 'approved' : 'declined';
+  };
+}
@@ -0,0 +1,136 @@
+/**
+ * Payment Asset Registry
+ *
+ * Maps (network, token address) → symbol, decimals and a USD price source, so
+ * the spending guard and every reported amount convert correctly instead of
+ * assuming 6-decimal USDC. Assets not in the registry are rejected: a service
+ * quoting in an unknown token can't be priced, so max_cost and budgets
+ * couldn't be enforced. Add tokens in config.json → assets:
+ *
+ *   { "assets": [{ "network": "base", "address": "0x…", "symbol": "FOO", "decimals": 18, "coingecko_id": "foo" }] }
+ */
+
+import { formatUnits } from 'viem';
+import { loadConfig } from './config.js';
+import { NETWORKS, getNetwork } from './networks.js';
+
+const COINGECKO_URL = 'https://api.coingecko.com/api/v3/simple/price';
+const PRICE_TTL_MS = 5 * 60 * 1000;
+
+/** Where the USD price of one whole token comes from. */
+export type PriceSource =
+  | { type: 'fixed'; usd: number }      // pegged stablecoins
+  | { type: 'coingecko'; id: string };  // live spot price
+
+export interface AssetInfo {
+  network: string;   // CAIP-2, e.g. "eip155:8453"
+  address: string;
+  symbol: string;
+  decimals: number;
+  price: PriceSource;
+}
+
+/** An atomic amount converted with the registry. */
+export interface PricedAmount {
+  symbol: string;
+  decimals: number;
+  amount_formatted: string; // whole tokens, e.g. "0.01"
+  amount_usd: number;
+  price_source: string;     // "fixed" or "coingecko:<id>"
+}
+
+export class UnknownAssetError extends Error {
+  constructor(public network: string, public asset: string) {
+    super(
+      `Unknown payment asset ${asset} on ${getNetwork(network)?.name ?? network} — can't price it in USD. ` +
+      `Add it to ~/.signal402/config.json → assets if you trust it.`
+    );
+    this.name = 'UnknownAssetError';
+  }
+}
+
+const USD_PEG: PriceSource = { type: 'fixed', usd: 1 };
+
+function asset(network: string, address: string, symbol: string, decimals: number, price: PriceSource): AssetInfo {
+  return { network: getNetwork(network)!.caip2, address, symbol, decimals, price };
+}
+
+const BUILTIN_ASSETS: AssetInfo[] = [
+  // Native USDC on every network in the registry (mainnets and testnets)
+  ...NETWORKS.map(n => ({ network: n.caip2, address: n.usdc, symbol: 'USDC', decimals: 6, price: USD_PEG })),
+  asset('base', '0x60a3E35Cc302bFA44Cb288Bc5a4F316Fdb1adb42', 'EURC', 6, { type: 'coingecko', id: 'euro-coin' }),
+  asset('ethereum', '0x1aBaEA1f7C830bD89Acc67eC4af516284b1bC33c', 'EURC', 6, { type: 'coingecko', id: 'euro-coin' }),
+  asset('base', '0x50c5725949A6F0c72E6C4a641F24049A917DB0Cb', 'DAI', 18, USD_PEG),
+  asset('ethereum', '0x6B175474E89094C44Da98b954EedeAC495271d0F', 'DAI', 18, USD_PEG),
+  asset('ethereum', '0xdAC17F958D2ee523a2206206994597C13D831ec7', 'USDT', 6, USD_PEG),
+  asset('arbitrum', '0xFd086bC7CD5C481DCC9C85ebE478A1C0b69FCbb9', 'USDT', 6, USD_PEG),
+  asset('polygon', '0xc2132D05D31c914a87C6611C10748AEb04B58e8F', 'USDT', 6, USD_PEG),
+];
+
+/** Entries from config.json → assets, validated. */
+function configuredAssets(): AssetInfo[] {
+  return (loadConfig().assets ?? []).map(a => {
+    const where = `config.json asset ${a.symbol ?? a.address}`;
+    if (!a.network || !a.address || !a.symbol || !Number.isInteger(a.decimals)) {
+      throw new Error(`${where}: network, address, symbol and decimals are required`);
+    }
+    let price: PriceSource;
+    if (a.usd_price != null) price = { type: 'fixed', usd: a.usd_price };
+    else if (a.coingecko_id) price = { type: 'coingecko', id: a.coingecko_id };
+    else throw new Error(`${where}: set usd_price or coingecko_id`);
+    return { network: getNetwork(a.network)?.caip2 ?? a.network, address: a.address, symbol: a.symbol, decimals: a.decimals, price };
+  });
+}
+
+// ── Lookup ──────────────────────────────────────
+
+/** Registry entry for a token, by v1 or CAIP-2 network and address. Config entries win. */
+export function findAsset(network: string, address: string): AssetInfo | undefined {
+  const caip2 = getNetwork(network)?.caip2 ?? network;
+  const addr = address.toLowerCase();
+  return [...configuredAssets(), ...BUILTIN_ASSETS].find(a => a.network === caip2 && a.address.toLowerCase() === addr);
+}
+
+// ── Pricing ─────────────────────────────────────
+
+const priceCache = new Map<string, { usd: number; fetchedAt: number }>();
+
+async function coingeckoPrice(id: string): Promise<number> {
+  const cached = priceCache.get(id);
+  if (cached && Date.now() - cached.fetchedAt < PRICE_TTL_MS) return cached.usd;
+
+  const res = await fetch(`${COINGECKO_URL}?ids=${encodeURIComponent(id)}&vs_currencies=usd`, {
+    signal: AbortSignal.timeout(5_000),
+  });
+  if (!res.ok) throw new Error(`CoinGecko price for ${id} failed: ${res.status}`);
+  const data = (await res.json()) as Record<string, { usd?: number }>;
+  const usd = data[id]?.usd;
+  if (typeof usd !== 'number') throw new Error(`CoinGecko has no USD price for ${id}`);
+
+  priceCache.set(id, { usd, fetchedAt: Date.now() });
+  return usd;
+}
+
+/** USD price of one whole token. */
+export async function assetPriceUsd(info: AssetInfo): Promise<number> {
+  return info.price.type === 'fixed' ? info.price.usd : coingeckoPrice(info.price.id);
+}
+
+/**
+ * Convert an atomic amount of `asset` on `network` to USD.
+ * Throws UnknownAssetError for tokens not in the registry.
+ */
+export async function priceAmount(network: string, assetAddress: string, amount: string): Promise<PricedAmount> {
+  const info = findAsset(network, assetAddress);
+  if (!info) throw new UnknownAssetError(network, assetAddress);
+
+  const formatted = formatUnits(BigInt(amount), info.decimals);
+  const usd = Number(formatted) * await assetPriceUsd(info);
+  return {
+    symbol: info.symbol,
+    decimals: info.decimals,
+    amount_formatted: formatted,
+    amount_usd: usd,
+    price_source: info.price.type === 'fixed' ? 'fixed' : `coingecko:${info.price.id}`,
+  };
+}
@@ -0,0 +1,88 @@
+/**
+ * Multi-Chain Balances
+ *
+ * USDC and native gas token balances for a wallet across every enabled EVM
+ * network. Networks are queried in parallel; a failing RPC only marks its own
+ * row as errored.
+ */
+
+import { formatUnits, parseAbi } from 'viem';
+import { enabledNetworks, publicClientFor, type EvmNetwork } from './networks.js';
+
+const ERC20_ABI = parseAbi(['function balanceOf(address) view returns (uint256)']);
+
+export interface NetworkBalance {
+  network: string;        // v1 name, e.g. "base"
+  name: string;
+  chain_id: number;
+  testnet: boolean;
+  usdc: string | null;    // formatted, 2 decimals
+  native: string | null;  // formatted, 6 decimals
+  native_symbol: string;
+  error?: string;
+}
+
+/** USDC balance on one network, formatted with 2 decimals. */
+export async function getUsdcBalance(net: EvmNetwork, address: string): Promise<string> {
+  const balance = await publicClientFor(net).readContract({
+    address: net.usdc,
+    abi: ERC20_ABI,
+    functionName: 'balanceOf',
+    args: [address as `0x${string}`],
+  });
+  // USDC has 6 decimals
+  return Number(formatUnits(balance, 6)).toFixed(2);
+}
+
+/** Balance of any ERC-20 on one network, in atomic units. */
+export async function getTokenBalance(net: EvmNetwork, token: string, address: string): Promise<bigint> {
+  return publicClientFor(net).readContract({
+    address: token as `0x${string}`,
+    abi: ERC20_ABI,
+    functionName: 'balanceOf',
+    args: [address as `0x${string}`],
+  });
+}
+
+async function getNetworkBalance(net: EvmNetwork, address: string): Promise<NetworkBalance> {
+  const row: NetworkBalance = {
+    network: net.key,
+    name: net.name,
+    chain_id: net.chain.id,
+    testnet: net.testnet,
+    usdc: null,
+    native: null,
+    native_symbol: net.chain.nativeCurrency.symbol,
+  };
+
+  const [usdc, native] = await Promise.allSettled([
+    getUsdcBalance(net, address),
+    publicClientFor(net).getBalance({ address: address as `0x${string}` }),
+  ]);
+
+  if (usdc.status === 'fulfilled') row.usdc = usdc.value;
+  if (native.status === 'fulfilled') {
+    row.native = Number(formatUnits(native.value, net.chain.nativeCurrency.decimals)).toFixed(6);
+  }
+
+  const failed = [usdc, native].find(r => r.status === 'rejected') as PromiseRejectedResult | undefined;
+  if (failed) {
+    const reason = failed.reason instanceof Error ? failed.reason.message : String(failed.reason);
+    row.error = reason.split('\n')[0];
+  }
+  return row;
+}
+
+/** Balances on every enabled network (or the given ones), in registry order. */
+export async function checkBalances(address: string, networks: EvmNetwork[] = enabledNetworks()): Promise<NetworkBalance[]> {
+  return Promise.all(networks.map(net => getNetworkBalance(net, address)));
+}
+
+/** One line per network, e.g. "Base          $12.50 USDC   0.001200 ETH" */
+export function formatBalanceLines(balances: NetworkBalance[]): string[] {
+  return balances.map(b => {
+    const usdc = b.usdc != null ? `$${b.usdc} USDC` : '? USDC';
+    const native = b.native != null ? `${b.native} ${b.native_symbol}` : `? ${b.native_symbol}`;
+    return `${b.name.padEnd(18)} ${usdc.padEnd(16)} ${native}${b.error ? `  (${b.error})` : ''}`;
+  });
+}
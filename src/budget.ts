@@ -0,0 +1,119 @@
+/**
+ * Spending Budgets
+ *
+ * Rolling limits on top of the per-request max_cost guard: per MCP session,
+ * per UTC day, per UTC week, and per target origin (daily). Spend is computed
+ * from the local ledger, so limits hold across restarts (except the session
+ * budget, which only counts this server process's entries). Payments still
+ * in flight count as spent, so concurrent calls can't each pass the same
+ * remaining budget.
+ */
+
+import { loadConfig } from './config.js';
+import { readLedger, isSpent, pendingPayments, SESSION_ID, type LedgerEntry } from './ledger.js';
+
+export interface BudgetWindow {
+  name: string;          // "session", "daily", "weekly", "origin api.example.com"
+  limit_usd: number;
+  spent_usd: number;
+  remaining_usd: number;
+  resets_at: string | null; // null for the session budget (resets on restart)
+}
+
+// ── Window Boundaries ───────────────────────────
+
+function startOfUtcDay(now: Date): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+}
+
+function startOfUtcWeek(now: Date): Date {
+  const day = startOfUtcDay(now);
+  const sinceMonday = (day.getUTCDay() + 6) % 7;
+  return new Date(day.getTime() - sinceMonday * 86_400_000);
+}
+
+function matchesOrigin(entryUrl: string, key: string): boolean {
+  try {
+    const u = new URL(entryUrl);
+    return u.origin === key.replace(/\/$/, '') || u.host === key || u.hostname === key;
+  } catch {
+    return false;
+  }
+}
+
+function sumSince(entries: LedgerEntry[], since: Date | null, filter?: (e: LedgerEntry) => boolean): number {
+  const sinceMs = since?.getTime() ?? 0;
+  return entries
+    .filter(e => isSpent(e) && Date.parse(e.timestamp) >= sinceMs && (!filter || filter(e)))
+    .reduce((sum, e) => sum + (e.amount_usd || 0), 0);
+}
+
+/** Payments this process has in flight: part of every window, since they're happening now. */
+function inFlight(origin?: string): number {
+  return pendingPayments()
+    .filter(p => !origin || matchesOrigin(p.url, origin))
+    .reduce((sum, p) => sum + p.amount_usd, 0);
+}
+
+// ── Status ──────────────────────────────────────
+
+/**
+ * Current state of every configured budget. When `url` is given, only the
+ * per-origin budgets matching it are included.
+ */
+export function getBudgetStatus(url?: string, now = new Date()): BudgetWindow[] {
+  const budget = loadConfig().budget;
+  if (!budget) return [];
+
+  const entries = readLedger();
+  const dayStart = startOfUtcDay(now);
+  const weekStart = startOfUtcWeek(now);
+  const nextDay = new Date(dayStart.getTime() + 86_400_000).toISOString();
+  const nextWeek = new Date(weekStart.getTime() + 7 * 86_400_000).toISOString();
+
+  const windows: BudgetWindow[] = [];
+  const add = (name: string, limit: number, spent: number, resetsAt: string | null) => {
+    windows.push({
+      name,
+      limit_usd: limit,
+      spent_usd: spent,
+      remaining_usd: Math.max(0, limit - spent),
+      resets_at: resetsAt,
+    });
+  };
+
+  if (budget.session != null) add('session', budget.session, sumSince(entries, null, e => e.session === SESSION_ID) + inFlight(), null);
+  if (budget.daily != null) add('daily', budget.daily, sumSince(entries, dayStart) + inFlight(), nextDay);
+  if (budget.weekly != null) add('weekly', budget.weekly, sumSince(entries, weekStart) + inFlight(), nextWeek);
+
+  for (const [origin, limit] of Object.entries(budget.per_origin || {})) {
+    if (url && !matchesOrigin(url, origin)) continue;
+    add(`origin ${origin}`, limit, sumSince(entries, dayStart, e => matchesOrigin(e.url, origin)) + inFlight(origin), nextDay);
+  }
+
+  return windows;
+}
+
+// ── Enforcement ─────────────────────────────────
+
+function describeReset(resetsAt: string | null, now: Date): string {
+  if (!resetsAt) return 'Resets when the MCP server restarts.';
+  const mins = Math.max(0, Math.round((Date.parse(resetsAt) - now.getTime()) / 60_000));
+  return `Resets at ${resetsAt} (in ${Math.floor(mins / 60)}h ${mins % 60}m).`;
+}
+
+/**
+ * Check a pending payment against all budgets.
+ * Returns an abort reason for the first budget it would exceed, or null.
+ */
+export function checkBudget(url: string, costUsd: number, now = new Date()): string | null {
+  for (const w of getBudgetStatus(url, now)) {
+    if (costUsd > w.remaining_usd) {
+      const label = w.name.charAt(0).toUpperCase() + w.name.slice(1);
+      return `${label} budget exceeded: this payment costs $${costUsd.toFixed(4)} but only ` +
+        `$${w.remaining_usd.toFixed(4)} of the $${w.limit_usd.toFixed(2)} ${w.name} budget is left. ` +
+        describeReset(w.resets_at, now);
+    }
+  }
+  return null;
+}
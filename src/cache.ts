@@ -0,0 +1,165 @@
+/**
+ * Discovery Response Cache
+ *
+ * The discovery tools (catalog, recommend, assess, probe) pay Signal402 on
+ * every call. Answers are kept for a per-tool TTL, keyed by tool and
+ * parameters, so asking the same question again in one conversation is free.
+ * The key also holds the Signal402 URL and the network mode, so an answer
+ * from one deployment or from testnet is never served for another.
+ * Held in memory, and optionally on disk under ~/.signal402/cache so they
+ * survive restarts (config.json → cache.disk). `fresh: true` on a tool call
+ * skips the cache and pays for a new answer, which then replaces the old one.
+ */
+
+import { createHash } from 'crypto';
+import { readFileSync, writeFileSync, mkdirSync, existsSync, unlinkSync } from 'fs';
+import { homedir } from 'os';
+import { join } from 'path';
+import { loadConfig } from './config.js';
+import { collectReceipts, BASE_URL } from './client.js';
+import { networkMode } from './networks.js';
+import type { PaymentReceipt } from './receipt.js';
+
+const CACHE_DIR = join(homedir(), '.signal402', 'cache');
+
+// Seconds. Probe matches the server's own 5 minute cache.
+const DEFAULT_TTL_SECONDS: Record<string, number> = {
+  signal402_catalog: 60 * 60,
+  signal402_recommend: 15 * 60,
+  signal402_assess: 60 * 60,
+  signal402_probe: 5 * 60,
+};
+
+interface CacheEntry {
+  tool: string;
+  params: Record<string, unknown>;
+  stored_at: number;   // ms epoch
+  expires_at: number;
+  paid_usd: number;    // what the answer cost when it was paid for
+  result: unknown;
+}
+
+/** Shown in a tool result served from the cache. */
+export interface CacheHit {
+  age_seconds: number;
+  expires_in_seconds: number;
+  saved_usd: number;
+  session_saved_usd: number; // across every hit since the server started
+}
+
+const memory = new Map<string, CacheEntry>();
+let sessionSavedUsd = 0;
+
+function ttlSeconds(tool: string): number {
+  return loadConfig().cache?.ttl_seconds?.[tool] ?? DEFAULT_TTL_SECONDS[tool] ?? 0;
+}
+
+/** Where the answer came from, tool name and parameters, with unset parameters dropped and keys sorted. */
+function cacheKey(tool: string, params: Record<string, unknown>): string {
+  const defined = Object.keys(params).sort().filter(k => params[k] !== undefined).map(k => [k, params[k]]);
+  return createHash('sha256').update(`${BASE_URL} ${networkMode()} ${tool} ${JSON.stringify(defined)}`).digest('hex');
+}
+
+// ── Disk ────────────────────────────────────────
+
+function readDisk(key: string): CacheEntry | null {
+  const file = join(CACHE_DIR, `${key}.json`);
+  if (!existsSync(file)) return null;
+  try {
+    return JSON.parse(readFileSync(file, 'utf-8'));
+  } catch {
+    return null;
+  }
+}
+
+function writeDisk(key: string, entry: CacheEntry) {
+  try {
+    mkdirSync(CACHE_DIR, { recursive: true, mode: 0o700 });
+    writeFileSync(join(CACHE_DIR, `${key}.json`), JSON.stringify(entry), { mode: 0o600 });
+  } catch {
+    // Disk cache is best-effort — memory still has the entry
+  }
+}
+
+function dropDisk(key: string) {
+  try {
+    unlinkSync(join(CACHE_DIR, `${key}.json`));
+  } catch {
+    // Already gone
+  }
+}
+
+// ── Lookup ──────────────────────────────────────
+
+function lookup(key: string, disk: boolean): CacheEntry | null {
+  const entry = memory.get(key) ?? (disk ? readDisk(key) : null);
+  if (!entry) return null;
+  if (entry.expires_at <= Date.now()) {
+    memory.delete(key);
+    if (disk) dropDisk(key);
+    return null;
+  }
+  memory.set(key, entry);
+  return entry;
+}
+
+/**
+ * Run a paid discovery call through the cache. On a hit nothing is paid and
+ * `receipts` is empty; on a miss `fn` runs, its receipts are collected, and
+ * the result is stored if the tool has a TTL.
+ */
+export async function cachedDiscovery<T>(
+  tool: string,
+  params: Record<string, unknown>,
+  fresh: boolean,
+  fn: () => Promise<T>
+): Promise<{ result: T; receipts: PaymentReceipt[]; hit: CacheHit | null }> {
+  const config = loadConfig().cache;
+  const enabled = config?.enabled !== false;
+  const disk = config?.disk === true;
+  const key = cacheKey(tool, params);
+
+  const entry = enabled && !fresh ? lookup(key, disk) : null;
+  if (entry) {
+    sessionSavedUsd += entry.paid_usd;
+    const now = Date.now();
+    return {
+      result: entry.result as T,
+      receipts: [],
+      hit: {
+        age_seconds: Math.round((now - entry.stored_at) / 1000),
+        expires_in_seconds: Math.round((entry.expires_at - now) / 1000),
+        saved_usd: entry.paid_usd,
+        session_saved_usd: sessionSavedUsd,
+      },
+    };
+  }
+
+  const { result, receipts } = await collectReceipts(fn);
+  const ttl = ttlSeconds(tool);
+  if (enabled && ttl > 0) {
+    const now = Date.now();
+    const stored: CacheEntry = {
+      tool,
+      params,
+      stored_at: now,
+      expires_at: now + ttl * 1000,
+      paid_usd: receipts.reduce((sum, r) => sum + r.amount_usd, 0),
+      result,
+    };
+    memory.set(key, stored);
+    if (disk) writeDisk(key, stored);
+  }
+  return { result, receipts, hit: null };
+}
+
+function minutes(seconds: number): string {
+  return seconds < 90 ? `${seconds}s` : `${Math.round(seconds / 60)} min`;
+}
+
+/** One line for a tool result served from the cache. */
+export function formatCacheHit(hit: CacheHit): string {
+  return `Cached answer from ${minutes(hit.age_seconds)} ago (expires in ${minutes(hit.expires_in_seconds)}) — ` +
+    `nothing paid, saved $${hit.saved_usd.toFixed(4)} ($${hit.session_saved_usd.toFixed(4)} this session). ` +
+    'Pass fresh: true to pay for a new answer.';
+}
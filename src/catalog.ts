@@ -0,0 +1,223 @@
+/**
+ * Offline Catalog Snapshot
+ *
+ * `signal402 catalog sync` pays once for the full /catalog payload and keeps
+ * it in ~/.signal402/catalog.json. signal402_search then filters, sorts and
+ * searches that copy for free. The payload is stored as received and
+ * normalized when searched, so entries keep their original fields.
+ */
+
+import { readFileSync, writeFileSync, renameSync, mkdirSync, existsSync } from 'fs';
+import { homedir } from 'os';
+import { join } from 'path';
+import { fetchCatalog, collectReceipts } from './client.js';
+import { getNetwork } from './networks.js';
+import type { PaymentReceipt } from './receipt.js';
+
+const SIGNAL402_DIR = join(homedir(), '.signal402');
+const SNAPSHOT_FILE = join(SIGNAL402_DIR, 'catalog.json');
+
+export const STALE_AFTER_DAYS = 7;
+
+export interface CatalogSnapshot {
+  synced_at: string;
+  paid_usd: number;
+  tx_hash: string | null;
+  payload: unknown; // /catalog response, as received
+}
+
+/** The searchable fields of one catalog service, whatever the payload called them. */
+export interface CatalogEntry {
+  name: string;
+  url: string;
+  category: string | null;
+  status: string | null;
+  price_usd: number | null;
+  facilitators: string[];
+  networks: string[];
+  description: string;
+  market_share: number | null;
+}
+
+export interface CatalogQuery {
+  query?: string;
+  category?: string;
+  status?: string;
+  max_price?: number;
+  facilitator?: string;
+  network?: string;
+  sort?: 'relevance' | 'name' | 'price' | 'market_share';
+  limit?: number;
+}
+
+export interface CatalogMatch extends CatalogEntry {
+  score?: number; // relevance, when searching by keyword
+}
+
+// ── Snapshot ────────────────────────────────────
+
+export function loadSnapshot(): CatalogSnapshot | null {
+  if (!existsSync(SNAPSHOT_FILE)) return null;
+  try {
+    return JSON.parse(readFileSync(SNAPSHOT_FILE, 'utf-8'));
+  } catch {
+    return null;
+  }
+}
+
+/** Pay for the full catalog and replace the snapshot. */
+export async function syncCatalog(): Promise<{ snapshot: CatalogSnapshot; entries: CatalogEntry[]; receipts: PaymentReceipt[] }> {
+  const { result, receipts } = await collectReceipts(() => fetchCatalog());
+  const entries = catalogEntries(result);
+  if (entries.length === 0) throw new Error('Catalog response had no services — keeping the existing snapshot.');
+
+  const snapshot: CatalogSnapshot = {
+    synced_at: new Date().toISOString(),
+    paid_usd: receipts.reduce((sum, r) => sum + r.amount_usd, 0),
+    tx_hash: receipts.find(r => r.transaction)?.transaction ?? null,
+    payload: result,
+  };
+  mkdirSync(SIGNAL402_DIR, { recursive: true, mode: 0o700 });
+  const tmp = `${SNAPSHOT_FILE}.tmp`;
+  writeFileSync(tmp, JSON.stringify(snapshot, null, 2), { mode: 0o600 });
+  renameSync(tmp, SNAPSHOT_FILE);
+  return { snapshot, entries, receipts };
+}
+
+export function snapshotAgeDays(snapshot: CatalogSnapshot): number {
+  return (Date.now() - new Date(snapshot.synced_at).getTime()) / 86_400_000;
+}
+
+// ── Normalization ───────────────────────────────
+
+function list(value: unknown): string[] {
+  if (value == null || value === '') return [];
+  const items = Array.isArray(value) ? value : [value];
+  return items
+    .map(v => typeof v === 'object' && v !== null ? (v as { name?: unknown }).name : v)
+    .filter(v => v != null && v !== '')
+    .map(String);
+}
+
+function num(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'string') {
+    const parsed = parseFloat(value.replace(/[$,\s]/g, ''));
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+}
+
+/** Services from a /catalog payload: a bare array, or under services / results. */
+export function catalogEntries(payload: unknown): CatalogEntry[] {
+  const data = payload as Record<string, unknown> | unknown[] | null;
+  const services = Array.isArray(data) ? data : (data?.services ?? data?.results ?? []) as unknown[];
+  if (!Array.isArray(services)) return [];
+
+  return services.filter(s => typeof s === 'object' && s !== null).map(raw => {
+    const s = raw as Record<string, unknown>;
+    return {
+      name: String(s.name ?? s.service ?? 'unknown'),
+      url: String(s.url ?? s.website ?? ''),
+      category: s.category != null ? String(s.category) : null,
+      status: s.status != null ? String(s.status) : null,
+      price_usd: num(s.price ?? s.price_per_request ?? s.cost),
+      facilitators: list(s.facilitators ?? s.facilitator),
+      networks: list(s.networks ?? s.network ?? s.chains),
+      description: String(s.description ?? s.summary ?? ''),
+      market_share: num(s.market_share),
+    };
+  });
+}
+
+// ── Search ──────────────────────────────────────
+
+/** Levenshtein distance, stopping early once it exceeds `max`. */
+function distance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    if (Math.min(...row) > max) return max + 1;
+    prev = row;
+  }
+  return prev[b.length];
+}
+
+/** Crude English stem, so "scrape" finds "scraping" and "models" finds "model". */
+function stem(word: string): string {
+  return word.length > 4 ? word.replace(/(ing|ers|er|ed|es|s|e)$/, '') : word;
+}
+
+/** How well one query term matches a field: whole text, word prefix, stem, substring, or a typo away from a word. */
+function termScore(term: string, field: string): number {
+  const text = field.toLowerCase();
+  if (!text) return 0;
+  if (text === term) return 1;
+  const words = text.split(/[^a-z0-9]+/).filter(Boolean);
+  if (words.some(w => w.startsWith(term))) return 0.8;
+  const root = stem(term);
+  if (root !== term && words.some(w => w.startsWith(root))) return 0.7;
+  if (text.includes(term)) return 0.6;
+  const tolerance = term.length >= 8 ? 2 : term.length >= 4 ? 1 : 0;
+  if (tolerance > 0 && words.some(w => distance(term, w, tolerance) <= tolerance)) return 0.4;
+  return 0;
+}
+
+// Name matches count most, then labels, then the description
+const FIELD_WEIGHTS: [keyof CatalogEntry, number][] = [
+  ['name', 3], ['category', 1.5], ['facilitators', 1.5], ['networks', 1], ['url', 1], ['description', 1],
+];
+
+/** Relevance of an entry to every term, or 0 if any term matches nowhere. */
+function relevance(entry: CatalogEntry, terms: string[]): number {
+  let total = 0;
+  for (const term of terms) {
+    let best = 0;
+    for (const [field, weight] of FIELD_WEIGHTS) {
+      const value = entry[field];
+      const text = Array.isArray(value) ? value.join(' ') : String(value ?? '');
+      best = Math.max(best, termScore(term, text) * weight);
+    }
+    if (best === 0) return 0;
+    total += best;
+  }
+  return Math.round(total * 100) / 100;
+}
+
+/** Network names compare by registry key, so "base" matches "eip155:8453". */
+function sameNetwork(a: string, b: string): boolean {
+  const key = (n: string) => getNetwork(n)?.key ?? n.toLowerCase();
+  return key(a) === key(b);
+}
+
+export function searchCatalog(entries: CatalogEntry[], q: CatalogQuery): CatalogMatch[] {
+  const has = (value: string | null, wanted?: string) => !wanted || (value ?? '').toLowerCase() === wanted.toLowerCase();
+  const terms = (q.query ?? '').toLowerCase().split(/\s+/).filter(Boolean);
+
+  let matches: CatalogMatch[] = entries
+    .filter(e => has(e.category, q.category) && has(e.status, q.status))
+    .filter(e => q.max_price == null || (e.price_usd != null && e.price_usd <= q.max_price))
+    .filter(e => !q.facilitator || e.facilitators.some(f => f.toLowerCase().includes(q.facilitator!.toLowerCase())))
+    .filter(e => !q.network || e.networks.some(n => sameNetwork(n, q.network!)));
+
+  if (terms.length > 0) {
+    matches = matches.map(e => ({ ...e, score: relevance(e, terms) })).filter(e => e.score! > 0);
+  }
+
+  const sort = q.sort ?? (terms.length > 0 ? 'relevance' : 'name');
+  const byName = (a: CatalogMatch, b: CatalogMatch) => a.name.localeCompare(b.name);
+  const nullsLast = (a: number | null, b: number | null, desc: boolean) =>
+    a == null ? (b == null ? 0 : 1) : b == null ? -1 : desc ? b - a : a - b;
+  matches.sort((a, b) => {
+    if (sort === 'relevance') return (b.score ?? 0) - (a.score ?? 0) || byName(a, b);
+    if (sort === 'price') return nullsLast(a.price_usd, b.price_usd, false) || byName(a, b);
+    if (sort === 'market_share') return nullsLast(a.market_share, b.market_share, true) || byName(a, b);
+    return byName(a, b);
+  });
+
+  return matches.slice(0, q.limit ?? 20);
+}
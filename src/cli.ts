@@ -2,11 +2,29 @@ import { program } from 'commander';
 import { runSetup } from './commands/setup.js';
 import { runStatus } from './commands/status.js';
 import { runFund } from './commands/fund.js';
+import { runHistory } from './commands/history.js';
+import { runDisputes } from './commands/disputes.js';
+import { runCatalogSync } from './commands/catalog.js';
+import { runInstall, runUninstall, runServices } from './commands/services.js';
+import { runScan } from './commands/scan.js';
+import { runKeystore } from './commands/keystore.js';
+import { runRpcSigner } from './commands/rpc-signer.js';
+import { setNetworkMode } from './networks.js';
 
 program
   .name('signal402')
   .description('CLI for x402 payments — set up a wallet, fund it, and start paying for queries')
-  .version('0.2.0');
+  .version('0.2.0')
+  .option('--network <mode>', 'mainnet (Base) or testnet (Base Sepolia); defaults to SIGNAL402_NETWORK or mainnet')
+  .hook('preAction', (cmd) => {
+    const { network } = cmd.opts<{ network?: string }>();
+    if (!network) return;
+    try {
+      setNetworkMode(network);
+    } catch (err) {
+      cmd.error(err instanceof Error ? err.message : String(err));
+    }
+  });
 
 program
   .command('setup')
@@ -23,4 +41,78 @@ program
   .description('Fund your wallet with USDC on Base')
   .action(runFund);
 
+program
+  .command('install <service>')
+  .description('Pin an x402 service by URL or catalog name; its paid endpoints become MCP tools')
+  .option('--name <name>', 'service name used in tool names (default: from the hostname or catalog name)')
+  .option('--method <method>', 'HTTP method, when installing a single endpoint URL', 'GET')
+  .option('--max-cost <usd>', 'default USD cap per call (default: each endpoint\'s price at install)')
+  .option('--prefer-network <network>', 'only pay this service on this network, e.g. base or eip155:8453')
+  .option('--notes <text>', 'notes for your team and the agent, e.g. why it was vetted')
+  .action(runInstall);
+
+program
+  .command('uninstall <name>')
+  .description('Remove an installed service and its MCP tools')
+  .action(runUninstall);
+
+program
+  .command('services')
+  .description('List installed services with their live price and status (checked unpaid)')
+  .option('--offline', 'skip the live check and show the last one')
+  .option('--json', 'print the registry with the check results as JSON')
+  .action(runServices);
+
+program
+  .command('scan <origin>')
+  .description('Find the x402-protected paths on a domain and their payment requirements (never pays)')
+  .option('--path <path...>', 'extra paths to check, e.g. /search /v1/scrape')
+  .option('--concurrency <n>', 'requests in flight at once', '4')
+  .option('--timeout <seconds>', 'seconds to wait for each response', '5')
+  .option('--json', 'print the full scan as JSON')
+  .action(runScan);
+
+program
+  .command('keystore')
+  .description('Create a self-custodied wallet in an encrypted local keystore (signs offline, no Para)')
+  .option('--import', 'import an existing private key instead of generating one')
+  .action(runKeystore);
+
+program
+  .command('rpc-signer <url>')
+  .description('Sign payments with an external JSON-RPC signer (eth_signTypedData_v4), e.g. Frame or Clef')
+  .option('--address <address>', 'account to pay from (default: ask the signer via eth_accounts)')
+  .action(runRpcSigner);
+
+program
+  .command('history')
+  .description('Show recent x402 payments and spend totals by service and day')
+  .option('--since <when>', 'only payments since a window (24h, 7d) or date (2026-01-31)')
+  .option('--origin <host>', 'only payments to hosts containing this text')
+  .option('--tool <name>', 'only payments made by this tool (e.g. signal402_call)')
+  .option('--min <usd>', 'only payments of at least this many USD')
+  .option('--limit <n>', 'number of recent payments to list', '20')
+  .option('--json', 'print the full report as JSON')
+  .option('--csv', 'print matching payments as CSV')
+  .action(runHistory);
+
+const catalog = program
+  .command('catalog')
+  .description('Keep a local copy of the Signal402 catalog for free searching');
+
+catalog
+  .command('sync')
+  .description('Pay once ($0.01) for the full catalog and save it for signal402_search')
+  .action(runCatalogSync);
+
+program
+  .command('disputes')
+  .description('List paid calls that failed anyway, with refund evidence, per service')
+  .option('--service <host>', 'only disputes with hosts containing this text')
+  .option('--all', 'include resolved disputes')
+  .option('--json', 'print the disputes with full evidence as JSON')
+  .option('--resolve <id>', 'mark a dispute resolved')
+  .option('--note <text>', 'with --resolve: why (e.g. "refunded")')
+  .action(runDisputes);
+
 program.parse();
@@ -4,55 +4,313 @@
  * Uses the official @x402 SDK for protocol-compliant payment handling:
  * 1. Request a resource → get 402 with payment requirements
  * 2. SDK selects scheme, builds EIP-712 payload, calls our signer
- * 3. Para signer (account.ts) hashes + signs via clara-proxy
+ * 3. Signer (account.ts) signs — Para via clara-proxy, or a local keystore
  * 4. SDK retries with standard payment headers
  *
+ * Requests go out through transport.ts (timeouts, retries before payment).
+ * A signed payment is held for its logical request until it expires, so a
+ * retry resends it instead of signing a second authorization.
+ *
  * Supports x402 v1 + v2 protocols, all EVM chains, EIP-3009 + Permit2.
  */
 
+import { AsyncLocalStorage } from 'async_hooks';
+import { createHash } from 'crypto';
 import { wrapFetchWithPayment, x402Client, x402HTTPClient } from '@x402/fetch';
 import { registerExactEvmScheme } from '@x402/evm/exact/client';
 import { loadWallet } from './wallet.js';
-import { createParaSigner } from './account.js';
+import { createSigner } from './account.js';
+import { appendLedger, addPending, removePending, type PendingPayment } from './ledger.js';
+import { checkBudget } from './budget.js';
+import { checkPolicy, type SpendPolicy } from './policy.js';
+import { checkNetworkMode } from './networks.js';
+import { selectPayment, noOptionReason, type PaymentSelection } from './selection.js';
+import { priceAmount, type PricedAmount } from './assets.js';
+import { parseReceipt, buildReceipt, type PaymentReceipt } from './receipt.js';
+import { verificationEnabled, verifySettlement } from './verify.js';
+import { sendWithRetry, transportSettings, isTransient, readText, type TransportSettings } from './transport.js';
+import { schemaFrom402, validateRequest, RequestValidationError, type EndpointSchema, type ValidationResult } from './schema.js';
+import { classifyPaidResponse, recordDispute, type Dispute, type ExpectedOutput } from './disputes.js';
+import { approvalReasons, ApprovalRequiredError, type ApprovalRequest, type Approver } from './approval.js';
+import type { PaymentRequired, PaymentRequirements } from '@x402/fetch';
+
+export const BASE_URL = process.env.SIGNAL402_URL || 'https://signal402.com';
+
+/** Signal402's own paid tools. It only charges on Base mainnet, so testnet mode lets these through. */
+const DISCOVERY_TOOLS = new Set(['signal402_catalog', 'signal402_assess', 'signal402_recommend', 'signal402_probe']);
+
+function isOwnDiscovery(url: string, tool: string): boolean {
+  return DISCOVERY_TOOLS.has(tool) && new URL(url).origin === new URL(BASE_URL).origin;
+}
+
+// ── Per-Request Payment Context ─────────────────
+
+/**
+ * Everything the payment hooks need to know about the request being paid.
+ * Carried through the SDK's async chain with AsyncLocalStorage, so concurrent
+ * tool calls never see each other's cap, tool name or policy.
+ */
+interface PaymentContext {
+  url: string;
+  tool: string;
+  maxCostUsd?: number;
+  policy?: SpendPolicy;
+  tags?: Record<string, string>;
+  network?: string;
+  ownDiscovery: boolean; // a Signal402 discovery call: exempt from testnet mode's mainnet refusal
+  transport: TransportSettings;
+  idempotency: { key: string; fingerprint: string; explicit: boolean };
+  allowRepay: boolean;
+  replay: HeldPayment | null; // earlier payment for this request, resent instead of signing
+  validate: { method: string; body?: string } | null; // check the request against the 402's schema first
+  validation: RequestValidation | null;
+  selection: { report: PaymentSelection; requirements: PaymentRequirements | null } | null; // set on 402
+  priced: PricedAmount | null; // USD conversion of the option about to be signed
+  pending: PendingPayment | null; // counted against budgets from the check until the ledger has it
+  payment: {
+    requirements: PaymentRequirements;
+    x402Version: number;
+    priced: PricedAmount;
+    nonce?: `0x${string}`;
+    expected: ExpectedOutput; // what the 402 promised the response would look like
+    headers: Record<string, string>; // the encoded payment header, kept for resending
+    expires_at: number; // ms epoch after which the authorization can no longer settle
+  } | null; // set once signed
+  approvalRequired: ApprovalRequest | null; // approval nobody could give
+}
+
+export interface PaymentOptions {
+  maxCostUsd?: number;            // abort if the service charges more than this
+  tool?: string;                  // ledger tag, e.g. "signal402_call"
+  policy?: SpendPolicy;           // overrides ~/.signal402/policy.json for this request
+  tags?: Record<string, string>;  // extra labels written to the ledger
+  network?: string;               // only pay on this network ("base", "eip155:42161")
+  dryRun?: boolean;               // send unpaid, return the 402 as-is
+  timeoutMs?: number;             // per attempt (default: config.json → requests)
+  retries?: number;               // transient-failure retries before payment (same)
+  idempotencyKey?: string;        // names the logical request; default: hash of method, URL and body
+  allowRepay?: boolean;           // sign a new payment even if one is held for this request
+  validate?: boolean;             // refuse to pay if the request doesn't match the 402's input schema
+}
+
+/** Outcome of validate=true: the advertised schema (null if none) and what didn't match. */
+export interface RequestValidation {
+  schema: EndpointSchema | null;
+  result: ValidationResult;
+}
+
+/** A response plus how its payment (if any) was chosen and settled. */
+export interface X402Result {
+  response: Response;
+  selection: PaymentSelection | null; // null when no 402 was answered
+  receipt: PaymentReceipt | null;     // null when nothing was paid
+  dispute: Dispute | null;            // set when the service failed after being paid
+  replayed: boolean;                  // paid with a payment held from an earlier attempt, nothing new signed
+  validation: RequestValidation | null; // set with validate=true once a 402 was seen
+}
+
+const paymentContext = new AsyncLocalStorage<PaymentContext>();
+
+// Receipts of every payment made inside collectReceipts(), for tools whose
+// fetch helpers only return the parsed body
+const receiptCollector = new AsyncLocalStorage<PaymentReceipt[]>();
 
-const BASE_URL = process.env.SIGNAL402_URL || 'https://signal402.com';
+// Server-wide approver, set once by the MCP server (none in the CLI)
+let _approver: Approver | null = null;
+
+/** Register how to ask the user when a payment needs approval. */
+export function setPaymentApprover(approver: Approver | null) {
+  _approver = approver;
+}
+
+/** Atomic amount from payment requirements — v2 uses `amount`, v1 `maxAmountRequired` */
+function requiredAmount(req: PaymentRequirements): string {
+  return req.amount ?? (req as unknown as { maxAmountRequired: string }).maxAmountRequired;
+}
 
 // ── Lazy-Initialized Payment Client ─────────────
 
 let _fetchWithPayment: ((input: RequestInfo | URL, init?: RequestInit) => Promise<Response>) | null = null;
 
-// Per-request spending cap (safe in single-threaded Node.js)
-let _currentMaxCost: number | undefined;
-
 function getFetchWithPayment() {
   if (_fetchWithPayment) return _fetchWithPayment;
 
   const wallet = loadWallet();
   if (!wallet) throw new Error('No wallet configured. Run signal402_setup first.');
 
-  // Create Para-backed signer that delegates to clara-proxy
-  const signer = createParaSigner(wallet.walletId, wallet.address);
+  // Signer backend chosen in wallet.json (Para via clara-proxy by default)
+  const signer = createSigner(wallet);
 
-  // Initialize x402 client with EVM exact scheme (v1 + v2, all chains)
-  const client = new x402Client();
+  // Initialize x402 client with EVM exact scheme (v1 + v2, all chains).
+  // The selector returns the option picked in onPaymentRequired below, and
+  // nothing else. The SDK first drops options it has no scheme for, so the
+  // chosen one may be missing (e.g. v1 on a network @x402/evm doesn't
+  // register): paying another option instead would not be what we reported.
+  const client = new x402Client((_version, reqs) => {
+    const chosen = paymentContext.getStore()?.selection?.requirements;
+    // No selection: onBeforePaymentCreation refuses to sign, whatever is returned here
+    if (!chosen) return reqs[0];
+    const supported = reqs.find(r => r === chosen);
+    if (!supported) {
+      throw new Error(`The chosen payment option (${chosen.scheme} on ${chosen.network}) can't be signed by this client. ` +
+        'Nothing was paid; pass network to pick another option.');
+    }
+    return supported;
+  });
   registerExactEvmScheme(client, { signer });
 
-  // Spending guard: abort payment if service costs more than max_cost
+  // Rank the 402's options (config.json → selection, or an explicit network).
+  // Async, so balances can be checked before the SDK's synchronous selector runs.
+  // If this request was already paid for (an earlier attempt timed out or
+  // failed), the held payment header is resent first; the SDK only goes on
+  // to sign if the service answers 402 again.
+  const httpClient = new x402HTTPClient(client).onPaymentRequired(async ({ paymentRequired }) => {
+    const ctx = paymentContext.getStore();
+    if (!ctx) return;
+    const candidates = await Promise.all(paymentRequired.accepts.map(async requirements => ({
+      requirements,
+      option: await toPaymentOption(requirements, paymentRequired),
+    })));
+    const { selection, requirements } = await selectPayment(candidates, { payer: wallet.address, network: ctx.network, anyMode: ctx.ownDiscovery });
+    ctx.selection = { report: selection, requirements };
+
+    if (ctx.validate) {
+      const schema = schemaFrom402(ctx.url, paymentRequired, selection.chosen, requirements ?? undefined);
+      ctx.validation = schema
+        ? { schema, result: validateRequest(schema, { url: ctx.url, ...ctx.validate }) }
+        : { schema: null, result: { problems: [], warnings: ['The service advertises no input schema — request not validated'] } };
+    }
+
+    const held = heldPayment(ctx.idempotency.key);
+    if (held && !ctx.replay) {
+      ctx.replay = held;
+      ctx.payment = held.payment;
+      return { headers: held.payment.headers };
+    }
+  });
+
+  // Spending guard: abort payment if no option is acceptable, on mainnet in
+  // testnet mode, or if the policy blocks the recipient, the service costs
+  // more than max_cost, or it would exceed any budget
   client.onBeforePaymentCreation(async (context) => {
-    if (_currentMaxCost != null) {
-      const amount = context.selectedRequirements.maxAmountRequired;
-      const costUsd = Number(amount) / 1e6; // USDC has 6 decimals
-      if (costUsd > _currentMaxCost) {
-        return {
-          abort: true,
-          reason: `Service costs $${costUsd.toFixed(4)} per request, exceeds max_cost of $${_currentMaxCost}. ` +
-            `Increase max_cost or choose a cheaper service.`,
-        };
+    const ctx = paymentContext.getStore();
+    if (!ctx) return { abort: true, reason: 'Payment attempted outside x402Fetch — refusing to sign.' };
+
+    // The held payment was resent and refused: it settled already, or the
+    // service won't take it. Either way, a new one needs an explicit go-ahead.
+    if (ctx.replay && !ctx.allowRepay) {
+      const key = ctx.idempotency.explicit ? `idempotency key "${ctx.idempotency.key.slice(4)}"` : 'this request';
+      return {
+        abort: true,
+        reason: `Already paid for ${key} (${ctx.replay.payment.priced.amount_formatted} ${ctx.replay.payment.priced.symbol}) and the service ` +
+          `answered 402 to that payment. Not signing a second one; retry with allow_repay to pay again.`,
+      };
+    }
+
+    if (!ctx.selection) return { abort: true, reason: 'No payment option was chosen for this request — refusing to sign.' };
+    if (!ctx.selection.requirements) {
+      return { abort: true, reason: noOptionReason(ctx.selection.report) };
+    }
+    // Only ever sign the option that was chosen and will be reported
+    if (context.selectedRequirements !== ctx.selection.requirements) {
+      return { abort: true, reason: `The SDK selected ${context.selectedRequirements.network}, not the chosen ${ctx.selection.requirements.network} — refusing to sign.` };
+    }
+
+    if (ctx.validation && ctx.validation.result.problems.length > 0) {
+      return { abort: true, reason: `Request doesn't match the service's schema: ${ctx.validation.result.problems.join('; ')}` };
+    }
+
+    const modeReason = ctx.ownDiscovery ? null : checkNetworkMode(context.selectedRequirements.network);
+    if (modeReason) {
+      return { abort: true, reason: modeReason };
+    }
+
+    const policyReason = checkPolicy(ctx.url, context.selectedRequirements, ctx.policy);
+    if (policyReason) {
+      return { abort: true, reason: policyReason };
+    }
+
+    // Unknown assets can't be priced, so every USD limit below would be meaningless
+    const req = context.selectedRequirements;
+    let priced: PricedAmount;
+    try {
+      priced = await priceAmount(req.network, req.asset, requiredAmount(req));
+    } catch (err) {
+      return { abort: true, reason: err instanceof Error ? err.message : String(err) };
+    }
+    ctx.priced = priced;
+    const costUsd = priced.amount_usd;
+
+    if (ctx.maxCostUsd != null && costUsd > ctx.maxCostUsd) {
+      return {
+        abort: true,
+        reason: `Service costs $${costUsd.toFixed(4)} (${priced.amount_formatted} ${priced.symbol}) per request, ` +
+          `exceeds max_cost of $${ctx.maxCostUsd}. ` +
+          `Increase max_cost or choose a cheaper service.`,
+      };
+    }
+
+    // Check and count in one synchronous step, so a concurrent call sees this
+    // payment. A retry's earlier attempt stops counting first, or it would be
+    // charged twice, and counts again if this one is refused.
+    const previous = ctx.pending;
+    if (previous) removePending(previous);
+    const budgetReason = checkBudget(ctx.url, costUsd);
+    if (budgetReason) {
+      if (previous) ctx.pending = Object.assign(addPending(previous.url, previous.amount_usd), { approved: previous.approved });
+      return { abort: true, reason: budgetReason };
+    }
+    ctx.pending = addPending(ctx.url, costUsd);
+
+    // Approval policy: pause and ask the user for large or first-time payments
+    const reasons = approvalReasons(ctx.url, costUsd);
+    if (reasons.length > 0) {
+      const request: ApprovalRequest = {
+        url: ctx.url,
+        tool: ctx.tool,
+        amount_usd: costUsd,
+        amount_formatted: `${priced.amount_formatted} ${priced.symbol}`,
+        network: req.network,
+        asset: req.asset,
+        pay_to: req.payTo,
+        reasons,
+      };
+      const decision = _approver ? await _approver(request) : 'unsupported';
+      if (decision === 'declined') {
+        return { abort: true, reason: `Payment of $${costUsd.toFixed(4)} declined by the user.` };
+      }
+      if (decision === 'unsupported') {
+        ctx.approvalRequired = request;
+        return { abort: true, reason: `Approval required: ${reasons.join('; ')}` };
       }
     }
+    ctx.pending.approved = true;
   });
 
-  _fetchWithPayment = wrapFetchWithPayment(globalThis.fetch, client);
+  // Remember what was signed so x402Fetch can write it to the ledger
+  client.onAfterPaymentCreation(async (context) => {
+    const ctx = paymentContext.getStore();
+    if (!ctx || !ctx.priced) return;
+    // EIP-3009 payloads carry the authorization nonce settlement verification
+    // looks for, and validBefore, after which it can't settle
+    const authorization = (context.paymentPayload.payload as {
+      authorization?: { nonce?: `0x${string}`; validBefore?: string };
+    }).authorization;
+    const validBefore = Number(authorization?.validBefore);
+    ctx.payment = {
+      requirements: context.selectedRequirements,
+      x402Version: context.paymentRequired.x402Version,
+      priced: ctx.priced,
+      ...(authorization?.nonce ? { nonce: authorization.nonce } : {}),
+      expected: expectedOutput(context.selectedRequirements, context.paymentRequired),
+      headers: httpClient.encodePaymentSignatureHeader(context.paymentPayload),
+      expires_at: validBefore > 0
+        ? validBefore * 1000
+        : Date.now() + context.selectedRequirements.maxTimeoutSeconds * 1000,
+    };
+  });
+
+  _fetchWithPayment = wrapFetchWithPayment(transportFetch, httpClient);
   return _fetchWithPayment;
 }
 
@@ -63,43 +321,383 @@ function getFetchWithPayment() {
  *
  * Uses the @x402 SDK for protocol-compliant 402 handling.
  * Optional maxCostUsd guard rejects payments above a threshold.
+ * Every signed payment is appended to the local ledger, tagged with `tool`.
+ * Transient failures are retried before payment; a request that was paid
+ * for but got no answer resends its held payment instead of signing again
+ * (see Idempotency below).
+ * With dryRun, the request is sent unpaid and a 402 is returned as-is.
+ * Throws ApprovalRequiredError if the approval policy needed a user decision
+ * that the connected client couldn't collect, and RequestValidationError if
+ * validate was set and the request doesn't match the 402's input schema.
  */
 export async function x402Fetch(
   url: string,
   init?: RequestInit,
-  opts?: { maxCostUsd?: number }
+  opts?: PaymentOptions
 ): Promise<Response> {
+  return (await x402Request(url, init, opts)).response;
+}
+
+/** Same as x402Fetch, but also reports which payment option was chosen and why. */
+export async function x402Request(
+  url: string,
+  init?: RequestInit,
+  opts?: PaymentOptions
+): Promise<X402Result> {
+  const transport = transportSettings({ timeoutMs: opts?.timeoutMs, retries: opts?.retries });
+  if (opts?.dryRun) {
+    const response = await sendWithRetry(new Request(url, init), transport);
+    return { response, selection: null, receipt: null, dispute: null, replayed: false, validation: null };
+  }
+
   const payFetch = getFetchWithPayment();
-  _currentMaxCost = opts?.maxCostUsd;
+  const fingerprint = requestFingerprint(url, init);
+  const idempotency = opts?.idempotencyKey
+    ? { key: `key:${opts.idempotencyKey}`, fingerprint, explicit: true }
+    : { key: `req:${fingerprint}`, fingerprint, explicit: false };
+  if (idempotency.explicit) {
+    const held = heldPayment(idempotency.key);
+    if (held && held.fingerprint !== fingerprint) {
+      throw new Error(`Idempotency key "${opts!.idempotencyKey}" was already used for a different request.`);
+    }
+    if (inFlight.has(idempotency.key)) {
+      throw new Error(`A request with idempotency key "${opts!.idempotencyKey}" is already in progress.`);
+    }
+  }
+
+  const ctx: PaymentContext = {
+    url,
+    tool: opts?.tool || 'x402Fetch',
+    maxCostUsd: opts?.maxCostUsd,
+    policy: opts?.policy,
+    tags: opts?.tags,
+    network: opts?.network,
+    ownDiscovery: isOwnDiscovery(url, opts?.tool || 'x402Fetch'),
+    transport,
+    idempotency,
+    allowRepay: opts?.allowRepay ?? false,
+    replay: null,
+    validate: opts?.validate
+      ? { method: init?.method ?? 'GET', ...(typeof init?.body === 'string' ? { body: init.body } : {}) }
+      : null,
+    validation: null,
+    selection: null,
+    priced: null,
+    pending: null,
+    payment: null,
+    approvalRequired: null,
+  };
+
+  if (idempotency.explicit) inFlight.add(idempotency.key);
+  return paymentContext.run(ctx, async () => {
+    try {
+      const res = await payFetch(url, init);
+      holdPayment(ctx, res.status);
+      const receipt = ctx.payment ? paymentReceipt(ctx, parseReceipt(res)) : null;
+      recordPayment(ctx, res.status, undefined, receipt);
+      if (receipt && res.ok && verificationEnabled()) {
+        receipt.verification = await verifySettlement(receipt, {
+          payer: loadWallet()!.address,
+          asset: ctx.payment!.requirements.asset,
+          nonce: ctx.payment!.nonce,
+        });
+      }
+      const dispute = receipt ? await disputeIfFailed(ctx, receipt, init, res) : null;
+      if (receipt) receiptCollector.getStore()?.push(receipt);
+      const replayed = ctx.replay !== null && ctx.payment === ctx.replay.payment;
+      return { response: res, selection: ctx.selection?.report ?? null, receipt, dispute, replayed, validation: ctx.validation };
+    } catch (err) {
+      holdPayment(ctx, null);
+      if (ctx.approvalRequired) throw new ApprovalRequiredError(ctx.approvalRequired);
+      if (ctx.validation?.schema && ctx.validation.result.problems.length > 0) {
+        throw new RequestValidationError(ctx.validation.schema, ctx.validation.result);
+      }
+      recordPayment(ctx, null, err instanceof Error ? err.message : String(err));
+      if (ctx.payment && isTransient(err)) {
+        (err as Error).message += '. A payment was signed but no answer came back; sending the same request again ' +
+          'resends that payment instead of signing a new one.';
+      }
+      throw err;
+    } finally {
+      inFlight.delete(idempotency.key);
+      if (ctx.pending) removePending(ctx.pending); // aborted or failed before reaching the ledger
+    }
+  });
+}
+
+/**
+ * The fetch the SDK sends through: timeouts and retries, per request. The
+ * SDK reads a 402's body itself, with no deadline, so it gets a copy read
+ * here under one.
+ */
+async function transportFetch(input: RequestInfo | URL, init?: RequestInit): Promise<Response> {
+  const settings = paymentContext.getStore()?.transport ?? transportSettings();
+  const res = await sendWithRetry(new Request(input, init), settings);
+  if (res.status !== 402) return res;
+  return new Response(await readText(res, settings.timeoutMs), { status: res.status, statusText: res.statusText, headers: res.headers });
+}
+
+/** A JSON body, read under the request timeout. */
+async function readJson(res: Response): Promise<any> {
+  return JSON.parse(await readText(res, transportSettings().timeoutMs));
+}
+
+// ── Idempotency ─────────────────────────────────
+
+/**
+ * A signed payment, held in memory under the logical request it paid for
+ * until its authorization expires. A request is named by the caller's
+ * idempotency key, or else by a hash of method, URL and body. Without a key,
+ * a payment is only held while its outcome is unknown (no response, or a
+ * 5xx); with one, it's held until expiry, so repeating the key never pays twice.
+ */
+interface HeldPayment {
+  fingerprint: string;
+  payment: NonNullable<PaymentContext['payment']>;
+}
+
+const heldPayments = new Map<string, HeldPayment>();
+const inFlight = new Set<string>();
+
+function requestFingerprint(url: string, init?: RequestInit): string {
+  const body = typeof init?.body === 'string' ? init.body : '';
+  return createHash('sha256').update(`${init?.method ?? 'GET'} ${url}\n${body}`).digest('hex');
+}
+
+function heldPayment(key: string): HeldPayment | null {
+  const held = heldPayments.get(key);
+  if (held && held.payment.expires_at <= Date.now()) {
+    heldPayments.delete(key);
+    return null;
+  }
+  return held ?? null;
+}
+
+/** Hold, keep or release this request's payment, given how the attempt ended (null: no response). */
+function holdPayment(ctx: PaymentContext, status: number | null) {
+  const { key, fingerprint, explicit } = ctx.idempotency;
+  if (!ctx.payment) return;
+  const unknownOutcome = status === null || status >= 500;
+  if (explicit || unknownOutcome) {
+    heldPayments.set(key, { fingerprint, payment: ctx.payment });
+  } else {
+    heldPayments.delete(key);
+  }
+}
+
+/**
+ * Run `fn` and collect the receipt of every payment it makes, e.g. around
+ * fetchCatalog(), whose result is only the parsed body.
+ */
+export async function collectReceipts<T>(fn: () => Promise<T>): Promise<{ result: T; receipts: PaymentReceipt[] }> {
+  const receipts: PaymentReceipt[] = [];
+  const result = await receiptCollector.run(receipts, fn);
+  return { result, receipts };
+}
+
+/** Response shape the 402 advertised: v1 mimeType/outputSchema, or the v2 resource's mimeType. */
+function expectedOutput(req: PaymentRequirements, paymentRequired: PaymentRequired): ExpectedOutput {
+  const v1 = req as unknown as { mimeType?: string; outputSchema?: { output?: unknown } };
+  const output = v1.outputSchema?.output;
+  return {
+    mime_type: v1.mimeType || paymentRequired.resource?.mimeType || undefined,
+    output_schema: output && typeof output === 'object' ? output as Record<string, unknown> : undefined,
+  };
+}
+
+/** Record a dispute if the service failed after we paid. Best-effort, like the ledger. */
+async function disputeIfFailed(ctx: PaymentContext, receipt: PaymentReceipt, init: RequestInit | undefined, res: Response): Promise<Dispute | null> {
+  if (receipt.settled === false) return null; // the payment didn't settle — nothing to refund
+  try {
+    const failure = await classifyPaidResponse(res, ctx.payment!.expected, ctx.transport.timeoutMs);
+    if (!failure) return null;
+    return recordDispute({ tool: ctx.tool, ...failure, receipt, request: { url: ctx.url, init }, response: res });
+  } catch {
+    return null;
+  }
+}
+
+function paymentReceipt(ctx: PaymentContext, settlement: ReturnType<typeof parseReceipt>): PaymentReceipt {
+  const { requirements, priced } = ctx.payment!;
+  return buildReceipt(ctx.url, {
+    network: requirements.network,
+    amount: requiredAmount(requirements),
+    pay_to: requirements.payTo,
+    priced,
+  }, settlement);
+}
+
+/**
+ * Write the payment signed during this request (if any) to the ledger, and
+ * stop counting it as in flight: from here on budgets see the ledger line.
+ */
+function recordPayment(ctx: PaymentContext, status: number | null, error?: string, receipt?: PaymentReceipt | null) {
+  if (!ctx.payment) return;
+  if (ctx.payment === ctx.replay?.payment) return; // resent, already in the ledger from when it was signed
+  const { requirements, x402Version, priced } = ctx.payment;
+
   try {
-    return await payFetch(url, init);
-  } finally {
-    _currentMaxCost = undefined;
+    appendLedger({
+      timestamp: new Date().toISOString(),
+      url: ctx.url,
+      tool: ctx.tool,
+      scheme: requirements.scheme,
+      network: requirements.network,
+      asset: requirements.asset,
+      symbol: priced.symbol,
+      amount: requiredAmount(requirements),
+      amount_usd: priced.amount_usd,
+      pay_to: requirements.payTo,
+      x402_version: x402Version,
+      status,
+      ...(receipt?.transaction ? { tx_hash: receipt.transaction } : {}),
+      ...(receipt && receipt.settled != null ? { settled: receipt.settled } : {}),
+      ...(error ? { error } : {}),
+      ...(ctx.tags ? { tags: ctx.tags } : {}),
+    });
+    if (ctx.pending) removePending(ctx.pending);
+  } catch {
+    // Ledger is best-effort — never fail a paid request because of it
+  }
+}
+
+// ── Quotes (dry run) ────────────────────────────
+
+export interface PaymentOption {
+  scheme: string;
+  network: string;
+  asset: string;
+  amount: string;        // atomic units
+  symbol: string | null; // null when the asset isn't in the registry
+  amount_formatted: string | null;
+  amount_usd: number | null;
+  pay_to: string;
+  max_timeout_seconds: number;
+  description?: string;
+  resource?: string;
+  pricing_error?: string; // why amount_usd is null (unknown asset, price feed down)
+}
+
+export interface PaymentQuote {
+  url: string;
+  status: number;
+  payment_required: boolean;
+  x402_version: number | null;
+  options: PaymentOption[];
+  error?: string;
+}
+
+/**
+ * Decode a 402 response into the SDK's PaymentRequired shape.
+ * Handles v2 (PAYMENT-REQUIRED header) and v1 (JSON body) the same way
+ * wrapFetchWithPayment does.
+ */
+async function parsePaymentRequired(res: Response, timeoutMs: number): Promise<PaymentRequired> {
+  const text = await readText(res, timeoutMs);
+  let body: unknown;
+  try {
+    if (text) body = JSON.parse(text);
+  } catch {
+    // v2 servers may send a non-JSON body — requirements are in the header
+  }
+  const httpClient = new x402HTTPClient(new x402Client());
+  return httpClient.getPaymentRequiredResponse(name => res.headers.get(name), body);
+}
+
+async function toPaymentOption(req: PaymentRequirements, paymentRequired: PaymentRequired): Promise<PaymentOption> {
+  const v1 = req as unknown as { description?: string; resource?: string };
+  const amount = requiredAmount(req);
+  let priced: PricedAmount | null = null;
+  let pricingError: string | undefined;
+  try {
+    priced = await priceAmount(req.network, req.asset, amount);
+  } catch (err) {
+    pricingError = err instanceof Error ? err.message : String(err);
+  }
+  return {
+    scheme: req.scheme,
+    network: req.network,
+    asset: req.asset,
+    amount,
+    symbol: priced?.symbol ?? null,
+    amount_formatted: priced ? `${priced.amount_formatted} ${priced.symbol}` : null,
+    amount_usd: priced?.amount_usd ?? null,
+    pay_to: req.payTo,
+    max_timeout_seconds: req.maxTimeoutSeconds,
+    description: v1.description ?? paymentRequired.resource?.description,
+    resource: v1.resource ?? paymentRequired.resource?.url,
+    ...(pricingError ? { pricing_error: pricingError } : {}),
+  };
+}
+
+/**
+ * Quote a request without paying: send it unpaid, and if the service answers
+ * 402, return every payment option it accepts. Nothing is signed.
+ */
+export async function x402Quote(
+  url: string,
+  init?: RequestInit,
+  opts?: Pick<PaymentOptions, 'timeoutMs' | 'retries'>
+): Promise<PaymentQuote> {
+  return (await quoteRequest(url, init, opts)).quote;
+}
+
+/** Same as x402Quote, plus the decoded 402 itself (for its schemas), or null if there was none. */
+export async function quoteRequest(
+  url: string,
+  init?: RequestInit,
+  opts?: Pick<PaymentOptions, 'timeoutMs' | 'retries'>
+): Promise<{ quote: PaymentQuote; paymentRequired: PaymentRequired | null }> {
+  const res = await x402Fetch(url, init, { ...opts, dryRun: true });
+  return quoteResponse(url, res, transportSettings(opts).timeoutMs);
+}
+
+/**
+ * Decode and price the payment options in an unpaid response to `url`, if
+ * it is a 402. Consumes the body, giving it `timeoutMs` to arrive.
+ */
+export async function quoteResponse(
+  url: string,
+  res: Response,
+  timeoutMs = transportSettings().timeoutMs
+): Promise<{ quote: PaymentQuote; paymentRequired: PaymentRequired | null }> {
+  const quote: PaymentQuote = { url, status: res.status, payment_required: res.status === 402, x402_version: null, options: [] };
+  if (res.status !== 402) return { quote, paymentRequired: null };
+
+  try {
+    const paymentRequired = await parsePaymentRequired(res, timeoutMs);
+    quote.x402_version = paymentRequired.x402Version;
+    quote.options = await Promise.all(paymentRequired.accepts.map(req => toPaymentOption(req, paymentRequired)));
+    if (paymentRequired.error) quote.error = paymentRequired.error;
+    return { quote, paymentRequired };
+  } catch (err) {
+    quote.error = `Failed to parse payment requirements: ${err instanceof Error ? err.message : String(err)}`;
+    return { quote, paymentRequired: null };
   }
 }
 
 // ── Public API ──────────────────────────────────
 
-export async function fetchCatalog(params?: { category?: string; status?: string; sort?: string }): Promise<any> {
+export async function fetchCatalog(params?: { category?: string; status?: string; sort?: string }, payment?: PaymentOptions): Promise<any> {
   const url = new URL('/catalog', BASE_URL);
   if (params?.category) url.searchParams.set('category', params.category);
   if (params?.status) url.searchParams.set('status', params.status);
   if (params?.sort) url.searchParams.set('sort', params.sort);
 
-  const res = await x402Fetch(url.toString());
+  const res = await x402Fetch(url.toString(), undefined, { ...payment, tool: 'signal402_catalog' });
   if (!res.ok) throw new Error(`Catalog fetch failed: ${res.status}`);
-  return res.json();
+  return readJson(res);
 }
 
-export async function fetchAssess(query: { url?: string; name?: string }): Promise<any> {
+export async function fetchAssess(query: { url?: string; name?: string }, payment?: PaymentOptions): Promise<any> {
   const res = await x402Fetch(`${BASE_URL}/assess`, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
     body: JSON.stringify(query),
-  });
+  }, { ...payment, tool: 'signal402_assess' });
 
   if (!res.ok) throw new Error(`Assess fetch failed: ${res.status}`);
-  return res.json();
+  return readJson(res);
 }
 
 export async function fetchRecommend(params: {
@@ -108,20 +706,20 @@ export async function fetchRecommend(params: {
   max_price?: number;
   status?: string;
   limit?: number;
-}): Promise<any> {
+}, payment?: PaymentOptions): Promise<any> {
   const res = await x402Fetch(`${BASE_URL}/recommend`, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
     body: JSON.stringify(params),
-  });
+  }, { ...payment, tool: 'signal402_recommend' });
   if (!res.ok) throw new Error(`Recommend fetch failed: ${res.status}`);
-  return res.json();
+  return readJson(res);
 }
 
 export async function fetchProbe(params: {
   name?: string;
   url?: string;
-}): Promise<any> {
+}, payment?: PaymentOptions): Promise<any> {
   let target: string;
   if (params.url) {
     const probeUrl = new URL('/probe', BASE_URL);
@@ -133,7 +731,7 @@ export async function fetchProbe(params: {
     throw new Error('Provide either name or url');
   }
 
-  const res = await x402Fetch(target);
+  const res = await x402Fetch(target, undefined, { ...payment, tool: 'signal402_probe' });
   if (!res.ok) throw new Error(`Probe fetch failed: ${res.status}`);
-  return res.json();
+  return readJson(res);
 }
@@ -0,0 +1,58 @@
+import * as p from '@clack/prompts';
+import { loadWallet } from '../wallet.js';
+import { setPaymentApprover } from '../client.js';
+import { loadSnapshot, syncCatalog, snapshotAgeDays } from '../catalog.js';
+import { formatReceipt } from '../receipt.js';
+
+/**
+ * Pay once for the full catalog and store it for signal402_search:
+ * - Shows the age of the current snapshot first
+ * - Payments that need approval (config.json → approval) are confirmed here
+ * - Prints the receipt and what the new snapshot holds
+ */
+export async function runCatalogSync() {
+  p.intro('signal402 catalog sync');
+
+  if (!loadWallet()) {
+    p.log.warn('No wallet found. Run `signal402 setup` first.');
+    p.outro('');
+    process.exit(0);
+  }
+
+  const current = loadSnapshot();
+  if (current) {
+    p.log.info(`Current snapshot: ${current.synced_at.replace('T', ' ').slice(0, 19)} (${snapshotAgeDays(current).toFixed(1)} days old)`);
+  }
+
+  const s = p.spinner();
+  const fetching = 'Fetching the full catalog ($0.01)...';
+  // The spinner redraws its line, so it stops while the question is on screen
+  setPaymentApprover(async request => {
+    s.stop('Payment needs approval');
+    const ok = await p.confirm({
+      message: `Pay $${request.amount_usd.toFixed(4)} (${request.amount_formatted}) to ${new URL(request.url).host}? ${request.reasons.join('; ')}`,
+    });
+    s.start(fetching);
+    return ok === true ? 'approved' : 'declined';
+  });
+
+  s.start(fetching);
+  try {
+    const { entries, receipts } = await syncCatalog();
+    s.stop(`Saved ${entries.length} services to ~/.signal402/catalog.json`);
+
+    const categories: Record<string, number> = {};
+    for (const e of entries) categories[e.category ?? 'unknown'] = (categories[e.category ?? 'unknown'] ?? 0) + 1;
+    p.note(
+      Object.entries(categories).sort(([, a], [, b]) => b - a).map(([cat, n]) => `${cat.padEnd(16)} ${n}`).join('\n'),
+      'By category'
+    );
+    if (receipts.length > 0) p.log.info(receipts.map(formatReceipt).join('\n'));
+  } catch (err) {
+    s.stop('Sync failed');
+    p.log.error(err instanceof Error ? err.message : String(err));
+    process.exit(1);
+  }
+
+  p.outro('Search it for free with signal402_search');
+}
@@ -0,0 +1,65 @@
+import * as p from '@clack/prompts';
+import { readDisputes, resolveDispute, formatDispute } from '../disputes.js';
+
+interface DisputesOptions {
+  service?: string;
+  all?: boolean;
+  json?: boolean;
+  resolve?: string;
+  note?: string;
+}
+
+/**
+ * Paid-but-failed calls recorded by the client:
+ * - Open disputes per service, with what was paid and the settlement tx
+ * - --json for the full evidence (request, response, receipt) to send a provider
+ * - --resolve <id> once refunded or written off
+ */
+export async function runDisputes(opts: DisputesOptions) {
+  if (opts.resolve) {
+    const resolved = resolveDispute(opts.resolve, opts.note);
+    if (!resolved) {
+      p.log.error(`No dispute with id "${opts.resolve}".`);
+      process.exit(1);
+    }
+    p.log.success(`Resolved ${formatDispute(resolved)}`);
+    return;
+  }
+
+  const disputes = readDisputes()
+    .filter(d => !opts.service || d.service.includes(opts.service))
+    .filter(d => opts.all || d.status === 'open')
+    .reverse();
+
+  // ── Export (machine-readable, no decoration) ──
+  if (opts.json) {
+    console.log(JSON.stringify(disputes, null, 2));
+    return;
+  }
+
+  p.intro('signal402 disputes');
+
+  if (disputes.length === 0) {
+    p.log.info(opts.all ? 'No disputes recorded.' : 'No open disputes.');
+    p.outro('');
+    return;
+  }
+
+  // ── Per service ───────────────────────────────
+  const byService = new Map<string, typeof disputes>();
+  for (const d of disputes) byService.set(d.service, [...(byService.get(d.service) ?? []), d]);
+
+  for (const [service, list] of byService) {
+    const lines = list.map(d => {
+      const when = d.timestamp.replace('T', ' ').slice(0, 19);
+      const resolved = d.status === 'resolved' ? `  (resolved${d.note ? `: ${d.note}` : ''})` : '';
+      return `${when}  ${d.kind.padEnd(15)} ${formatDispute(d)}${resolved}`;
+    });
+    // Unconfirmed payments may never have settled, so they aren't counted as owed
+    const total = list.filter(d => !d.unconfirmed).reduce((s, d) => s + d.receipt.amount_usd, 0);
+    const unconfirmed = list.filter(d => d.unconfirmed).length;
+    p.note(lines.join('\n'), `${service} — ${list.length} dispute(s), $${total.toFixed(4)} settled${unconfirmed > 0 ? `, ${unconfirmed} unconfirmed` : ''}`);
+  }
+
+  p.outro('Full evidence: signal402 disputes --json  ·  Close one: signal402 disputes --resolve <id>');
+}
@@ -1,10 +1,12 @@
 import * as p from '@clack/prompts';
 import open from 'open';
 import { loadWallet, checkUsdcBalance, getCoinbasePayUrl } from '../wallet.js';
+import { homeNetwork, isTestnetMode, USDC_FAUCET_URL, GAS_FAUCET_URL } from '../networks.js';
 
 /**
  * Funding-only flow: show current balance, present funding options,
  * and poll for incoming deposit. Subset of the full setup flow.
+ * In testnet mode, points at the Base Sepolia faucets instead of Coinbase Pay.
  */
 export async function runFund() {
   p.intro('signal402 fund');
@@ -46,23 +48,29 @@ export async function runFund() {
   }
 
   // ── Show funding options ──────────────────────
-  const coinbaseUrl = getCoinbasePayUrl(wallet.address);
+  const home = homeNetwork();
+  const testnet = isTestnetMode();
+  const fundUrl = testnet ? USDC_FAUCET_URL : getCoinbasePayUrl(wallet.address);
 
   p.note(
     [
-      `Send USDC on Base to:`,
+      `Send USDC on ${home.name} to:`,
       `  ${wallet.address}`,
       '',
-      `Min recommended: $1.00 (100 catalog queries)`,
+      ...(testnet
+        ? [`Test USDC: ${USDC_FAUCET_URL} (pick ${home.name})`, `Test ETH:  ${GAS_FAUCET_URL}`]
+        : [`Min recommended: $1.00 (100 catalog queries)`]),
     ].join('\n'),
-    'Funding'
+    testnet ? 'Funding (testnet)' : 'Funding'
   );
 
   const action = await p.select({
     message: 'How would you like to fund?',
     options: [
-      { value: 'coinbase', label: 'Open Coinbase Pay', hint: 'opens in browser' },
-      { value: 'manual', label: 'I\'ll send manually', hint: 'send USDC on Base' },
+      testnet
+        ? { value: 'open', label: 'Open the Circle USDC faucet', hint: 'opens in browser' }
+        : { value: 'open', label: 'Open Coinbase Pay', hint: 'opens in browser' },
+      { value: 'manual', label: 'I\'ll send manually', hint: `send USDC on ${home.name}` },
       { value: 'skip', label: 'Cancel', hint: 'fund later' },
     ],
   });
@@ -72,9 +80,9 @@ export async function runFund() {
     return;
   }
 
-  if (action === 'coinbase') {
-    await open(coinbaseUrl);
-    p.log.info('Coinbase Pay opened in your browser');
+  if (action === 'open') {
+    await open(fundUrl);
+    p.log.info(`${testnet ? 'USDC faucet' : 'Coinbase Pay'} opened in your browser`);
   }
 
   // ── Poll for deposit ──────────────────────────
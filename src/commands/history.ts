@@ -0,0 +1,79 @@
+import * as p from '@clack/prompts';
+import { buildSpendReport, parseSince, toCsv, type SpendFilter } from '../report.js';
+
+interface HistoryOptions {
+  since?: string;
+  origin?: string;
+  tool?: string;
+  min?: string;
+  limit: string;
+  json?: boolean;
+  csv?: boolean;
+}
+
+/**
+ * Payment history from the local ledger:
+ * - Recent payments (filtered by since / origin / tool / min amount)
+ * - Totals grouped by service and by day
+ * - Raw JSON or CSV export for reconciliation
+ */
+export async function runHistory(opts: HistoryOptions) {
+  let filter: SpendFilter;
+  try {
+    filter = {
+      since: opts.since ? parseSince(opts.since) : undefined,
+      origin: opts.origin,
+      tool: opts.tool,
+      min_usd: opts.min != null ? parseFloat(opts.min) : undefined,
+    };
+  } catch (err) {
+    p.log.error(err instanceof Error ? err.message : String(err));
+    process.exit(1);
+  }
+
+  const report = buildSpendReport(filter);
+
+  // ── Export (machine-readable, no decoration) ──
+  if (opts.json) {
+    console.log(JSON.stringify(report, null, 2));
+    return;
+  }
+  if (opts.csv) {
+    console.log(toCsv(report.entries));
+    return;
+  }
+
+  p.intro('signal402 history');
+
+  if (report.entries.length === 0) {
+    p.log.info('No payments recorded yet.');
+    p.outro('');
+    return;
+  }
+
+  // ── Recent payments ───────────────────────────
+  const limit = parseInt(opts.limit, 10) || 20;
+  const recent = report.entries.slice(0, limit).map(e => {
+    const when = e.timestamp.replace('T', ' ').slice(0, 19);
+    const status = e.status ?? 'error';
+    const tx = e.tx_hash ? `  tx ${e.tx_hash.slice(0, 10)}…` : '';
+    return `${when}  $${e.amount_usd.toFixed(4).padStart(8)}  ${String(status).padEnd(5)} ${e.tool.padEnd(20)} ${e.url}${tx}`;
+  });
+  if (report.entries.length > limit) {
+    recent.push(`... ${report.entries.length - limit} more (use --limit or --json)`);
+  }
+  p.note(recent.join('\n'), `Recent payments (${report.entries.length})`);
+
+  // ── Totals ────────────────────────────────────
+  p.note(
+    report.by_service.map(t => `${t.key.padEnd(36)} ${String(t.count).padStart(5)}×  $${t.total_usd.toFixed(4)}`).join('\n'),
+    'By service'
+  );
+  p.note(
+    report.by_day.map(t => `${t.key}  ${String(t.count).padStart(5)}×  $${t.total_usd.toFixed(4)}`).join('\n'),
+    'By day'
+  );
+
+  // by_service only groups payments that went through, like the total and count
+  p.outro(`Total: $${report.total_usd.toFixed(4)} across ${report.count} payments to ${report.by_service.length} services`);
+}
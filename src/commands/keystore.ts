@@ -0,0 +1,83 @@
+import * as p from '@clack/prompts';
+import type { Hex } from 'viem';
+import { createKeystoreWallet, loadWallet } from '../wallet.js';
+
+/**
+ * Self-custodied wallet setup:
+ * 1. Generate a new key (or import one with --import)
+ * 2. Encrypt it into ~/.signal402/keystore-<address>.json (scrypt, V3 format)
+ * 3. Point wallet.json at the keystore signer
+ */
+export async function runKeystore(opts: { import?: boolean }) {
+  p.intro('signal402 keystore');
+
+  const existing = loadWallet();
+  if (existing) {
+    p.log.warn(`Wallet already configured: ${existing.address} (${existing.signer?.type ?? 'para'} signer)`);
+    p.log.info('Move ~/.signal402/wallet.json aside to create a keystore wallet.');
+    p.outro('');
+    process.exit(0);
+  }
+
+  // ── Private key (import only) ─────────────────
+  let privateKey: Hex | undefined;
+  if (opts.import) {
+    const keyInput = await p.password({
+      message: 'Private key to import (0x...):',
+      validate: (v) => {
+        if (!/^(0x)?[0-9a-fA-F]{64}$/.test(v.trim())) return 'Expected a 32-byte hex private key';
+      },
+    });
+    if (p.isCancel(keyInput)) {
+      p.cancel('Cancelled.');
+      process.exit(0);
+    }
+    const key = keyInput.trim();
+    privateKey = (key.startsWith('0x') ? key : `0x${key}`) as Hex;
+  }
+
+  // ── Password ──────────────────────────────────
+  const password = await p.password({
+    message: 'Keystore password:',
+    validate: (v) => {
+      if (v.length < 8) return 'Use at least 8 characters';
+    },
+  });
+  if (p.isCancel(password)) {
+    p.cancel('Cancelled.');
+    process.exit(0);
+  }
+
+  const confirm = await p.password({ message: 'Confirm password:' });
+  if (p.isCancel(confirm) || confirm !== password) {
+    p.cancel('Passwords do not match.');
+    process.exit(1);
+  }
+
+  // ── Encrypt + save ────────────────────────────
+  const s = p.spinner();
+  s.start('Encrypting keystore...');
+  try {
+    const { address, keystorePath } = await createKeystoreWallet(password, privateKey);
+    s.stop(`Keystore wallet created: ${address}`);
+
+    p.note(
+      [
+        `Address:  ${address}`,
+        `Keystore: ${keystorePath}`,
+        '',
+        'The MCP server unlocks the keystore with SIGNAL402_KEYSTORE_PASSWORD:',
+        `  claude mcp add signal402 -e SIGNAL402_KEYSTORE_PASSWORD=... -- npx signal402-mcp`,
+        '',
+        'Fund it with USDC on Base: `signal402 fund`',
+      ].join('\n'),
+      'Self-custodied wallet'
+    );
+  } catch (err) {
+    s.stop('Keystore creation failed');
+    p.log.error(err instanceof Error ? err.message : String(err));
+    process.exit(1);
+  }
+
+  p.outro('Payments will be signed locally — no clara-proxy needed.');
+}
@@ -0,0 +1,77 @@
+import * as p from '@clack/prompts';
+import { rpcCall } from '../account.js';
+import { createRpcSignerWallet, loadWallet } from '../wallet.js';
+
+/**
+ * External signer setup:
+ * 1. Ask the JSON-RPC signer for its accounts (eth_accounts)
+ * 2. Pick one (or use --address)
+ * 3. Point wallet.json at the rpc signer
+ */
+export async function runRpcSigner(url: string, opts: { address?: string }) {
+  p.intro('signal402 rpc-signer');
+
+  const existing = loadWallet();
+  if (existing) {
+    p.log.warn(`Wallet already configured: ${existing.address} (${existing.signer?.type ?? 'para'} signer)`);
+    p.log.info('Move ~/.signal402/wallet.json aside to use an external signer.');
+    p.outro('');
+    process.exit(0);
+  }
+
+  // ── Discover accounts ─────────────────────────
+  let address = opts.address;
+  if (!address) {
+    const s = p.spinner();
+    s.start(`Asking ${url} for accounts...`);
+    let accounts: string[];
+    try {
+      accounts = (await rpcCall<string[]>(url, 'eth_accounts', [])) ?? [];
+      s.stop(`Signer exposes ${accounts.length} account(s)`);
+    } catch (err) {
+      s.stop('Could not reach signer');
+      p.log.error(err instanceof Error ? err.message : String(err));
+      p.log.info('Pass --address to skip account discovery.');
+      process.exit(1);
+    }
+
+    if (accounts.length === 0) {
+      p.log.error('Signer returned no accounts — unlock it or pass --address');
+      process.exit(1);
+    }
+
+    if (accounts.length === 1) {
+      address = accounts[0];
+    } else {
+      const choice = await p.select({
+        message: 'Which account should pay for x402 requests?',
+        options: accounts.map(a => ({ value: a, label: a })),
+      });
+      if (p.isCancel(choice)) {
+        p.cancel('Cancelled.');
+        process.exit(0);
+      }
+      address = choice as string;
+    }
+  }
+
+  if (!/^0x[0-9a-fA-F]{40}$/.test(address)) {
+    p.log.error(`Not an address: ${address}`);
+    process.exit(1);
+  }
+
+  // ── Save ──────────────────────────────────────
+  createRpcSignerWallet(url, address);
+
+  p.note(
+    [
+      `Address: ${address}`,
+      `Signer:  ${url} (eth_signTypedData_v4)`,
+      '',
+      'Fund it with USDC on Base: `signal402 fund`',
+    ].join('\n'),
+    'External signer configured'
+  );
+
+  p.outro('Payments will be signed by your external signer.');
+}
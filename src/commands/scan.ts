@@ -0,0 +1,73 @@
+import * as p from '@clack/prompts';
+import { scanOrigin, formatScanSummary, type ScanHit } from '../scan.js';
+
+interface ScanCommandOptions {
+  path?: string[];
+  concurrency: string;
+  timeout: string;
+  json?: boolean;
+}
+
+function optionLine(o: ScanHit['options'][number]): string {
+  const price = o.amount_usd != null ? `$${o.amount_usd.toFixed(4)}` : '$?';
+  const amount = o.amount_formatted ?? `${o.amount} (atomic, ${o.asset})`;
+  return `  ${price.padEnd(9)} ${amount} — ${o.scheme} on ${o.network}, pay to ${o.pay_to}`;
+}
+
+function fieldsLine(hit: ScanHit): string | null {
+  const fields = [...Object.keys(hit.schema?.queryParams ?? {}), ...Object.keys(hit.schema?.bodyFields ?? {})];
+  if (!hit.schema) return null;
+  return `  input: ${hit.schema.method ?? 'any method'}${fields.length > 0 ? ` ${fields.join(', ')}` : ''}`;
+}
+
+/**
+ * Find the x402-protected paths on a domain, without paying:
+ * - .well-known/x402 endpoints, common API roots and any --path given
+ * - Each 402 decoded into its payment options and input schema
+ * - --json for the full scan
+ */
+export async function runScan(origin: string, opts: ScanCommandOptions) {
+  let base: string;
+  try {
+    base = new URL(/^https?:\/\//i.test(origin) ? origin : `https://${origin}`).origin;
+  } catch {
+    p.log.error(`Not a URL or domain: ${origin}`);
+    process.exit(1);
+  }
+  const scanOpts = {
+    paths: opts.path,
+    concurrency: parseInt(opts.concurrency, 10) || undefined,
+    timeoutMs: (parseFloat(opts.timeout) || 5) * 1000,
+  };
+
+  // ── Export (machine-readable, no decoration) ──
+  if (opts.json) {
+    console.log(JSON.stringify(await scanOrigin(base, scanOpts), null, 2));
+    return;
+  }
+
+  p.intro('signal402 scan');
+
+  const s = p.spinner();
+  s.start(`Scanning ${base} (unpaid)...`);
+  const scan = await scanOrigin(base, scanOpts);
+  s.stop(formatScanSummary(scan));
+
+  for (const hit of scan.protected) {
+    const lines = [
+      ...hit.options.map(optionLine),
+      ...(fieldsLine(hit) ? [fieldsLine(hit)!] : []),
+      ...(hit.error ? [`  ${hit.error}`] : []),
+    ];
+    p.note(lines.join('\n') || '  (no payment options)', `${hit.method} ${hit.url} — x402 v${hit.x402_version ?? '?'}, ${hit.latency_ms}ms`);
+  }
+  if (scan.mentions.length > 0) {
+    p.log.info(`Mention x402Version without a 402:\n${scan.mentions.map(m => `  ${m.method} ${m.url} (HTTP ${m.status})`).join('\n')}`);
+  }
+  if (scan.unreachable.length > 0) {
+    p.log.warn(`No response:\n${scan.unreachable.map(u => `  ${u.method} ${u.url} — ${u.error}`).join('\n')}`);
+  }
+  if (scan.truncated) p.log.warn('Stopped after 50 paths.');
+
+  p.outro(scan.protected.length > 0 ? 'Nothing was paid. Inspect an endpoint with signal402_describe or install it with `signal402 install`' : 'Nothing was paid');
+}
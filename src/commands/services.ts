@@ -0,0 +1,143 @@
+import * as p from '@clack/prompts';
+import {
+  installService, uninstallService, loadServices, probeService,
+  type InstalledService, type ServiceProbe,
+} from '../services.js';
+
+interface InstallOptions {
+  name?: string;
+  method?: string;
+  maxCost?: string;
+  preferNetwork?: string;
+  notes?: string;
+}
+
+interface ServicesOptions {
+  offline?: boolean;
+  json?: boolean;
+}
+
+function when(iso: string): string {
+  return iso.replace('T', ' ').slice(0, 16);
+}
+
+function settingsLine(service: InstalledService): string | null {
+  const parts = [
+    ...(service.max_cost != null ? [`max $${service.max_cost}/call`] : []),
+    ...(service.network ? [`pays on ${service.network}`] : []),
+  ];
+  return parts.length > 0 ? parts.join(', ') : null;
+}
+
+/**
+ * Pin a service for the team and as MCP tools:
+ * - By URL (origin or one endpoint) or by name from the catalog snapshot
+ * - Describes its endpoints unpaid and records their schemas and prices
+ * - --max-cost, --prefer-network and --notes apply to every call the tools make
+ */
+export async function runInstall(target: string, opts: InstallOptions) {
+  p.intro('signal402 install');
+
+  const maxCost = opts.maxCost != null ? parseFloat(opts.maxCost) : undefined;
+  const s = p.spinner();
+  s.start(`Describing ${target} (unpaid)...`);
+  try {
+    const service = await installService(target, {
+      name: opts.name,
+      method: opts.method,
+      max_cost: maxCost,
+      network: opts.preferNetwork,
+      notes: opts.notes,
+    });
+    s.stop(`Installed ${service.name} (${service.origin})`);
+
+    const lines = service.endpoints.map(e =>
+      `${e.tool}\n  ${e.method} ${e.url} — ${e.price_usd != null ? `$${e.price_usd}` : 'price unknown'}${e.schema ? '' : ' (no input schema)'}`
+    );
+    p.note(lines.join('\n'), `${service.endpoints.length} tool(s)`);
+    const settings = settingsLine(service);
+    if (settings) p.log.info(settings);
+    if (service.notes) p.log.info(`Notes: ${service.notes}`);
+  } catch (err) {
+    s.stop('Install failed');
+    p.log.error(err instanceof Error ? err.message : String(err));
+    process.exit(1);
+  }
+
+  p.outro('Running MCP servers pick up the new tools automatically');
+}
+
+export async function runUninstall(name: string) {
+  const removed = uninstallService(name);
+  if (!removed) {
+    const installed = loadServices().map(s => s.name);
+    p.log.error(`No installed service "${name}". Installed: ${installed.join(', ') || 'none'}`);
+    process.exit(1);
+  }
+  p.log.success(`Uninstalled ${removed.name} — removed ${removed.endpoints.length} tool(s)`);
+}
+
+function probeLines(service: InstalledService, probe: ServiceProbe | undefined): string[] {
+  return service.endpoints.map(e => {
+    const live = probe?.endpoints.find(r => r.tool === e.tool);
+    const installed = e.price_usd != null ? `$${e.price_usd}` : '?';
+    if (!live) return `${e.tool}\n  ${e.method} ${e.url} — ${installed} at install, not checked`;
+
+    const price = live.price_usd != null ? `$${live.price_usd}` : '?';
+    const changed = live.price_usd != null && e.price_usd != null && live.price_usd !== e.price_usd ? ` (was ${installed})` : '';
+    const status = live.status === 402 ? `up, ${live.latency_ms}ms`
+      : live.status != null ? `HTTP ${live.status}, expected 402`
+      : `down: ${live.error ?? 'no response'}`;
+    return `${e.tool}\n  ${e.method} ${e.url} — ${price}${changed}, ${status}`;
+  });
+}
+
+/**
+ * Installed services, each checked live (unpaid) unless --offline:
+ * - Current price per endpoint, and the price at install if it changed
+ * - Status of the check; --offline shows the last one instead
+ */
+export async function runServices(opts: ServicesOptions) {
+  const services = loadServices();
+
+  const check = async () => new Map(await Promise.all(services.map(async svc => [svc.name, await probeService(svc)] as const)));
+  let probes = new Map<string, ServiceProbe | undefined>(services.map(s => [s.name, s.last_probe]));
+
+  // ── Export (machine-readable, no decoration) ──
+  if (opts.json) {
+    if (!opts.offline) probes = await check();
+    console.log(JSON.stringify(services.map(s => ({ ...s, last_probe: probes.get(s.name) ?? null })), null, 2));
+    return;
+  }
+
+  p.intro('signal402 services');
+
+  if (services.length === 0) {
+    p.log.info('No services installed. Add one with `signal402 install <url or catalog name>`.');
+    p.outro('');
+    return;
+  }
+
+  if (!opts.offline) {
+    const s = p.spinner();
+    s.start(`Checking ${services.length} service(s) (unpaid)...`);
+    probes = await check();
+    s.stop('Checked');
+  }
+
+  for (const service of services) {
+    const probe = probes.get(service.name);
+    const state = !probe ? 'never checked'
+      : `${probe.ok ? 'up' : 'problems'} — checked ${when(probe.checked_at)}`;
+    const lines = [
+      `${service.origin}${service.catalog_name ? ` (catalog: ${service.catalog_name})` : ''}, installed ${when(service.installed_at)}`,
+      ...(settingsLine(service) ? [settingsLine(service)!] : []),
+      ...(service.notes ? [`Notes: ${service.notes}`] : []),
+      '',
+      ...probeLines(service, probe),
+    ];
+    p.note(lines.join('\n'), `${service.name} — ${state}`);
+  }
+
+  p.outro(opts.offline ? 'Last check shown — run without --offline to check live' : 'Prices are what each endpoint asks now');
+}
@@ -8,13 +8,14 @@ import {
   getCoinbasePayUrl,
 } from '../wallet.js';
 import { getSession } from '../session.js';
+import { homeNetwork, isTestnetMode, USDC_FAUCET_URL, GAS_FAUCET_URL } from '../networks.js';
 
 /**
  * Interactive setup flow:
  * 1. Check for existing wallet → reuse or create
  * 2. Create wallet (with optional email)
  * 3. Sponsor gas (automatic, silent)
- * 4. Fund with USDC (Coinbase Pay + balance polling)
+ * 4. Fund with USDC (Coinbase Pay, or faucets in testnet mode + balance polling)
  * 5. Establish signing session
  * 6. Show summary + MCP registration hint
  */
@@ -93,7 +94,10 @@ export async function runSetup() {
   }
 
   // ── Step 3: Gas sponsorship (automatic) ────────
-  if (isNew) {
+  // clara-proxy sponsors Base mainnet only; testnet gas comes from a faucet
+  const home = homeNetwork();
+  const testnet = isTestnetMode();
+  if (isNew && !testnet) {
     const s = p.spinner();
     s.start('Requesting gas sponsorship...');
     const sponsored = await sponsorGas(address);
@@ -105,26 +109,37 @@ export async function runSetup() {
   const funded = parseFloat(balance) > 0;
 
   if (!funded) {
-    const coinbaseUrl = getCoinbasePayUrl(address);
+    const fundUrl = testnet ? USDC_FAUCET_URL : getCoinbasePayUrl(address);
 
     p.note(
-      [
-        `Current balance: $${balance}`,
-        `Min recommended: $1.00 (100 catalog queries)`,
-        '',
-        `Fund via:`,
-        `  Coinbase Pay: (opening in browser...)`,
-        `  Direct send:  Send USDC on Base to ${address}`,
-        `  Bridge:       https://jumper.exchange`,
-      ].join('\n'),
-      'Fund your wallet'
+      testnet
+        ? [
+          `Current balance: $${balance} (test USDC on ${home.name})`,
+          '',
+          `Fund via:`,
+          `  USDC faucet: ${USDC_FAUCET_URL} (pick ${home.name})`,
+          `  ETH faucet:  ${GAS_FAUCET_URL}`,
+          `  Address:     ${address}`,
+        ].join('\n')
+        : [
+          `Current balance: $${balance}`,
+          `Min recommended: $1.00 (100 catalog queries)`,
+          '',
+          `Fund via:`,
+          `  Coinbase Pay: (opening in browser...)`,
+          `  Direct send:  Send USDC on Base to ${address}`,
+          `  Bridge:       https://jumper.exchange`,
+        ].join('\n'),
+      testnet ? 'Fund your wallet (testnet)' : 'Fund your wallet'
     );
 
     const fundAction = await p.select({
       message: 'How would you like to fund?',
       options: [
-        { value: 'coinbase', label: 'Open Coinbase Pay', hint: 'opens in browser' },
-        { value: 'manual', label: 'I\'ll send manually', hint: 'send USDC on Base' },
+        testnet
+          ? { value: 'open', label: 'Open the Circle USDC faucet', hint: 'opens in browser' }
+          : { value: 'open', label: 'Open Coinbase Pay', hint: 'opens in browser' },
+        { value: 'manual', label: 'I\'ll send manually', hint: `send USDC on ${home.name}` },
         { value: 'skip', label: 'Skip for now', hint: 'you can run `signal402 fund` later' },
       ],
     });
@@ -134,9 +149,9 @@ export async function runSetup() {
       process.exit(0);
     }
 
-    if (fundAction === 'coinbase') {
-      await open(coinbaseUrl);
-      p.log.info('Coinbase Pay opened in your browser');
+    if (fundAction === 'open') {
+      await open(fundUrl);
+      p.log.info(`${testnet ? 'USDC faucet' : 'Coinbase Pay'} opened in your browser`);
     }
 
     if (fundAction !== 'skip') {
@@ -148,16 +163,21 @@ export async function runSetup() {
   }
 
   // ── Step 5: Establish signing session ──────────
-  const s = p.spinner();
-  s.start('Establishing signing session...');
-  try {
-    const session = await getSession(walletId, address);
-    const expiresIn = Math.round((session.expiresAt - Date.now()) / 1000 / 60 / 60);
-    s.stop(`Session active (expires in ${expiresIn}h)`);
-  } catch (err) {
-    s.stop('Session establishment failed');
-    p.log.warn(err instanceof Error ? err.message : String(err));
-    p.log.info('You can retry with: signal402 setup');
+  // Only Para wallets sign through clara-proxy; keystore wallets sign locally
+  if (existing?.signer && existing.signer.type !== 'para') {
+    p.log.info(`Signer: ${existing.signer.type} (no clara-proxy session needed)`);
+  } else {
+    const s = p.spinner();
+    s.start('Establishing signing session...');
+    try {
+      const session = await getSession(walletId, address);
+      const expiresIn = Math.round((session.expiresAt - Date.now()) / 1000 / 60 / 60);
+      s.stop(`Session active (expires in ${expiresIn}h)`);
+    } catch (err) {
+      s.stop('Session establishment failed');
+      p.log.warn(err instanceof Error ? err.message : String(err));
+      p.log.info('You can retry with: signal402 setup');
+    }
   }
 
   // ── Step 6: Summary ────────────────────────────
@@ -167,10 +187,12 @@ export async function runSetup() {
     [
       `Wallet:  ${address}`,
       `Email:   ${email || 'none'}`,
-      `Balance: $${balance} USDC`,
+      `Balance: $${balance} USDC on ${home.name}`,
       '',
       `To use Signal402 in Claude Code, add this MCP server:`,
-      `  claude mcp add signal402 -- npx signal402-mcp`,
+      testnet
+        ? `  claude mcp add signal402 -e SIGNAL402_NETWORK=testnet -- npx signal402-mcp`
+        : `  claude mcp add signal402 -- npx signal402-mcp`,
       '',
       `Then use:`,
       `  signal402_catalog  — browse x402 ecosystem ($0.01)`,
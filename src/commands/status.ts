@@ -1,5 +1,7 @@
 import * as p from '@clack/prompts';
 import { loadWallet, checkUsdcBalance } from '../wallet.js';
+import { checkBalances, formatBalanceLines } from '../balances.js';
+import { homeNetwork, isTestnetMode } from '../networks.js';
 import { existsSync, readFileSync } from 'fs';
 import { join } from 'path';
 import { homedir } from 'os';
@@ -16,7 +18,7 @@ interface SessionData {
 /**
  * Read-only status display:
  * - Wallet address + email
- * - USDC balance
+ * - USDC balance on the home network (Base / Base Sepolia), plus USDC + gas on every enabled network
  * - Session status + expiry
  */
 export async function runStatus() {
@@ -31,21 +33,27 @@ export async function runStatus() {
     process.exit(0);
   }
 
-  // ── Balance ───────────────────────────────────
+  // ── Balances ──────────────────────────────────
   const s = p.spinner();
-  s.start('Checking balance...');
-  let balance: string;
+  s.start('Checking balances...');
+  const home = homeNetwork();
+  let balance = '?.??';
+  let networkLines: string[] = [];
   try {
-    balance = await checkUsdcBalance(wallet.address);
-    s.stop(`Balance: $${balance} USDC`);
+    const balances = await checkBalances(wallet.address);
+    networkLines = formatBalanceLines(balances);
+    balance = balances.find(b => b.network === home.key)?.usdc ?? await checkUsdcBalance(wallet.address);
+    s.stop(`Balance: $${balance} USDC on ${home.name}`);
   } catch (err) {
-    s.stop('Could not check balance');
-    balance = '?.??';
+    s.stop('Could not check balances');
+    p.log.warn(err instanceof Error ? err.message : String(err));
   }
 
   // ── Session ───────────────────────────────────
   let sessionStatus = 'no session';
-  if (existsSync(SESSION_FILE)) {
+  if (wallet.signer && wallet.signer.type !== 'para') {
+    sessionStatus = 'not needed (local signer)';
+  } else if (existsSync(SESSION_FILE)) {
     try {
       const session: SessionData = JSON.parse(readFileSync(SESSION_FILE, 'utf-8'));
       const remaining = session.expiresAt - Date.now();
@@ -66,6 +74,8 @@ export async function runStatus() {
     [
       `Wallet:   ${wallet.address}`,
       `Email:    ${wallet.email || 'none'}`,
+      `Signer:   ${wallet.signer?.type ?? 'para'}`,
+      `Network:  ${home.name}${isTestnetMode() ? ' (testnet mode — test USDC only)' : ''}`,
       `Balance:  $${balance} USDC`,
       `Session:  ${sessionStatus}`,
       `Created:  ${wallet.created_at}`,
@@ -73,6 +83,10 @@ export async function runStatus() {
     'Signal402 Status'
   );
 
+  if (networkLines.length > 0) {
+    p.note(networkLines.join('\n'), 'Balances by network');
+  }
+
   if (parseFloat(balance) === 0) {
     p.log.info('Run `signal402 fund` to add USDC');
   }
@@ -0,0 +1,89 @@
+/**
+ * User Configuration
+ *
+ * Optional settings in ~/.signal402/config.json. Every section is optional —
+ * a missing or unreadable file means defaults everywhere. Read on each use so
+ * edits apply without restarting the MCP server.
+ */
+
+import { readFileSync, existsSync } from 'fs';
+import { homedir } from 'os';
+import { join } from 'path';
+
+const CONFIG_FILE = join(homedir(), '.signal402', 'config.json');
+
+/** Spending limits in USD. Omitted limits are not enforced. */
+export interface BudgetConfig {
+  session?: number;                    // per MCP server session (process lifetime)
+  daily?: number;                      // per UTC day
+  weekly?: number;                     // per UTC week, starting Monday
+  per_origin?: Record<string, number>; // per UTC day, keyed by origin or hostname
+}
+
+/** When to stop and ask the user before paying. */
+export interface ApprovalConfig {
+  threshold_usd?: number; // ask for any payment above this amount
+  new_origins?: boolean;  // ask the first time an origin is paid
+}
+
+/** Which EVM networks to check balances on, and RPC overrides. */
+export interface NetworksConfig {
+  enabled?: string[];             // network names, e.g. ["base", "optimism", "base-sepolia"]
+  rpc?: Record<string, string>;   // network name → RPC URL
+}
+
+/** How to choose when a 402 accepts several networks or assets. */
+export interface SelectionConfig {
+  strategy?: 'preferred' | 'cheapest'; // preference order first (default), or lowest USD price first
+  prefer?: string[];                   // network order, e.g. ["base", "arbitrum"]; default: home network
+  only_funded?: boolean;               // skip options the wallet can't cover on that network
+}
+
+/** A payment token to accept beyond the built-in registry (assets.ts). */
+export interface AssetConfig {
+  network: string;        // "base" or "eip155:8453"
+  address: string;
+  symbol: string;
+  decimals: number;
+  usd_price?: number;     // fixed price per whole token (stablecoins)
+  coingecko_id?: string;  // or a live price from CoinGecko
+}
+
+/** Opt-in on-chain check of every settlement receipt (verify.ts). */
+export interface VerificationConfig {
+  enabled?: boolean;
+  wait_seconds?: number;  // how long to wait for the settlement tx to be mined (default 30)
+}
+
+/** Timeouts and retries for every outgoing request (transport.ts). */
+export interface RequestsConfig {
+  timeout_seconds?: number; // per attempt, until response headers arrive (default 30)
+  retries?: number;         // extra attempts on transient failures (default 2)
+}
+
+/** Local cache of paid discovery answers (cache.ts). */
+export interface CacheConfig {
+  enabled?: boolean;                   // default true
+  disk?: boolean;                      // also keep answers in ~/.signal402/cache across restarts
+  ttl_seconds?: Record<string, number>; // tool name → TTL; 0 disables caching for that tool
+}
+
+export interface Signal402Config {
+  budget?: BudgetConfig;
+  approval?: ApprovalConfig;
+  networks?: NetworksConfig;
+  selection?: SelectionConfig;
+  assets?: AssetConfig[];
+  verification?: VerificationConfig;
+  requests?: RequestsConfig;
+  cache?: CacheConfig;
+}
+
+export function loadConfig(): Signal402Config {
+  if (!existsSync(CONFIG_FILE)) return {};
+  try {
+    return JSON.parse(readFileSync(CONFIG_FILE, 'utf-8'));
+  } catch {
+    return {};
+  }
+}
@@ -0,0 +1,249 @@
+/**
+ * Paid-but-Failed Disputes
+ *
+ * When a payment was signed and the service still failed — a 4xx/5xx after
+ * paying, an empty body, or a body that doesn't match what the 402 promised
+ * (mimeType / outputSchema) — the outcome is recorded with the receipt and
+ * the request/response evidence needed to ask the provider for a refund.
+ * Appended to ~/.signal402/disputes.jsonl, like the ledger, so concurrent
+ * writers can't lose each other's entries; resolving one appends a line
+ * too. Listed by signal402_disputes and `signal402 disputes`.
+ */
+
+import { randomUUID } from 'crypto';
+import { readFileSync, appendFileSync, mkdirSync, existsSync } from 'fs';
+import { homedir } from 'os';
+import { join } from 'path';
+import type { PaymentReceipt } from './receipt.js';
+import { readBody } from './transport.js';
+
+const SIGNAL402_DIR = join(homedir(), '.signal402');
+const DISPUTES_FILE = join(SIGNAL402_DIR, 'disputes.jsonl');
+const LEGACY_DISPUTES_FILE = join(SIGNAL402_DIR, 'disputes.json'); // one JSON array, read but no longer written
+
+const MAX_EVIDENCE_CHARS = 10_000;
+const MAX_EVIDENCE_BYTES = 64 * 1024; // read from a paid response to classify it
+const REDACTED_HEADERS = ['authorization', 'cookie', 'x-api-key', 'proxy-authorization', 'payment-signature', 'x-payment'];
+
+export type DisputeKind = 'server_error' | 'client_error' | 'empty_body' | 'schema_mismatch';
+
+export interface Dispute {
+  id: string;
+  timestamp: string;
+  service: string;   // hostname
+  tool: string;
+  kind: DisputeKind;
+  detail: string;
+  receipt: PaymentReceipt;
+  request: { method: string; url: string; headers: Record<string, string>; body?: string };
+  response: { status: number; status_text: string; headers: Record<string, string>; body: string };
+  status: 'open' | 'resolved';
+  resolved_at?: string;
+  note?: string;
+  unconfirmed?: true; // the service never reported settlement: check the chain before asking for a refund
+}
+
+/** A disputes.jsonl line that closes an earlier dispute. */
+interface Resolution {
+  resolves: string;  // dispute id
+  resolved_at: string;
+  note?: string;
+}
+
+/** What the 402 promised about the response, if anything. */
+export interface ExpectedOutput {
+  mime_type?: string;
+  output_schema?: Record<string, unknown>;
+}
+
+// ── Classification ──────────────────────────────
+
+function truncate(text: string): string {
+  return text.length > MAX_EVIDENCE_CHARS ? text.slice(0, MAX_EVIDENCE_CHARS) + '\n[...truncated]' : text;
+}
+
+/** Top-level JSON Schema check: type and required fields. Deep validation is the caller's job. */
+function schemaProblem(value: unknown, schema: Record<string, unknown>): string | null {
+  const type = schema.type;
+  if (type === 'object' && (typeof value !== 'object' || value === null || Array.isArray(value))) return 'expected a JSON object';
+  if (type === 'array' && !Array.isArray(value)) return 'expected a JSON array';
+  if (Array.isArray(schema.required) && typeof value === 'object' && value !== null) {
+    const missing = (schema.required as string[]).filter(k => !(k in value));
+    if (missing.length > 0) return `missing required field(s): ${missing.join(', ')}`;
+  }
+  return null;
+}
+
+/** Textual bodies are worth reading as evidence; anything else is described by size. */
+function isTextual(mime: string): boolean {
+  return mime === '' || mime.startsWith('text/') || /json|xml|javascript|yaml/.test(mime);
+}
+
+/** At most MAX_EVIDENCE_BYTES of a clone's body, so the caller's stays unread. */
+async function evidence(res: Response, timeoutMs: number) {
+  return readBody(res.clone(), { timeoutMs, maxBytes: MAX_EVIDENCE_BYTES }).catch(() => null);
+}
+
+/**
+ * Why a paid response counts as failed, or null if it looks fine. Error
+ * statuses are judged from the status alone; only textual bodies are read,
+ * from a clone and up to MAX_EVIDENCE_BYTES, for evidence and the output
+ * checks. Other bodies are only checked for emptiness by their
+ * Content-Length, and event streams only by status.
+ */
+export async function classifyPaidResponse(
+  res: Response,
+  expected: ExpectedOutput,
+  timeoutMs: number
+): Promise<{ kind: DisputeKind; detail: string; body: string } | null> {
+  const mime = (res.headers.get('content-type') || '').split(';')[0].trim().toLowerCase();
+  const textual = isTextual(mime) && mime !== 'text/event-stream';
+  const length = res.headers.get('content-length');
+  const described = length != null && Number(length) > 0 ? `[${length} bytes of ${mime}]` : '';
+
+  if (res.status >= 400 && res.status !== 402) {
+    const body = textual ? (await evidence(res, timeoutMs))?.body.toString('utf-8') ?? '' : described;
+    return res.status >= 500
+      ? { kind: 'server_error', detail: `HTTP ${res.status} after payment`, body }
+      : { kind: 'client_error', detail: `HTTP ${res.status} after payment`, body };
+  }
+  if (mime === 'text/event-stream' || res.status === 402) return null; // 402 again: payment wasn't accepted, nothing settled
+
+  if (!textual) {
+    if (res.status !== 204 && length === '0') return { kind: 'empty_body', detail: `HTTP ${res.status} with an empty body`, body: '' };
+    if (expected.mime_type?.includes('json')) {
+      return { kind: 'schema_mismatch', detail: `Expected ${expected.mime_type}, got ${mime}`, body: described };
+    }
+    return null;
+  }
+
+  const read = await evidence(res, timeoutMs);
+  if (!read || read.stopped === 'timeout') return null; // still arriving — not enough to judge it by
+  const body = read.body.toString('utf-8');
+
+  if (res.status !== 204 && body.trim() === '') return { kind: 'empty_body', detail: `HTTP ${res.status} with an empty body`, body };
+
+  const promisedJson = expected.mime_type?.includes('json') ?? false;
+  if (promisedJson && !mime.includes('json')) {
+    return { kind: 'schema_mismatch', detail: `Expected ${expected.mime_type}, got ${mime || 'no content type'}`, body };
+  }
+  // Past the cap the JSON can't be parsed, so its shape goes unchecked
+  if (read.stopped === 'complete' && (promisedJson || (expected.output_schema && mime.includes('json')))) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(body);
+    } catch {
+      return { kind: 'schema_mismatch', detail: 'Body is not valid JSON', body };
+    }
+    const problem = expected.output_schema ? schemaProblem(parsed, expected.output_schema) : null;
+    if (problem) return { kind: 'schema_mismatch', detail: `Body doesn't match the advertised output schema: ${problem}`, body };
+  }
+  return null;
+}
+
+// ── Storage ─────────────────────────────────────
+
+function readLegacy(): Dispute[] {
+  if (!existsSync(LEGACY_DISPUTES_FILE)) return [];
+  try {
+    const data = JSON.parse(readFileSync(LEGACY_DISPUTES_FILE, 'utf-8'));
+    return Array.isArray(data) ? data : [];
+  } catch {
+    return [];
+  }
+}
+
+/** Every dispute, oldest first, with later resolutions applied. Malformed lines are skipped. */
+export function readDisputes(): Dispute[] {
+  const disputes = readLegacy();
+  if (!existsSync(DISPUTES_FILE)) return disputes;
+
+  for (const line of readFileSync(DISPUTES_FILE, 'utf-8').split('\n')) {
+    if (!line.trim()) continue;
+    let record: Dispute | Resolution;
+    try {
+      record = JSON.parse(line);
+    } catch {
+      continue; // partial write from a crashed process
+    }
+    if (!('resolves' in record)) {
+      disputes.push(record);
+      continue;
+    }
+    const dispute = disputes.find(d => d.id === record.resolves);
+    if (!dispute) continue;
+    dispute.status = 'resolved';
+    dispute.resolved_at = record.resolved_at;
+    if (record.note) dispute.note = record.note;
+  }
+  return disputes;
+}
+
+function appendRecord(record: Dispute | Resolution) {
+  mkdirSync(SIGNAL402_DIR, { recursive: true, mode: 0o700 });
+  appendFileSync(DISPUTES_FILE, JSON.stringify(record) + '\n', { mode: 0o600 });
+}
+
+function redactHeaders(headers: Headers): Record<string, string> {
+  const out: Record<string, string> = {};
+  headers.forEach((value, name) => {
+    out[name] = REDACTED_HEADERS.includes(name.toLowerCase()) ? '[redacted]' : value;
+  });
+  return out;
+}
+
+export function recordDispute(params: {
+  tool: string;
+  kind: DisputeKind;
+  detail: string;
+  receipt: PaymentReceipt;
+  request: { url: string; init?: RequestInit };
+  response: Response;
+  body: string;
+}): Dispute {
+  const { init } = params.request;
+  const dispute: Dispute = {
+    id: randomUUID().slice(0, 8),
+    timestamp: new Date().toISOString(),
+    service: new URL(params.request.url).hostname,
+    tool: params.tool,
+    kind: params.kind,
+    detail: params.detail,
+    receipt: params.receipt,
+    request: {
+      method: init?.method ?? 'GET',
+      url: params.request.url,
+      headers: redactHeaders(new Headers(init?.headers)),
+      ...(typeof init?.body === 'string' ? { body: truncate(init.body) } : {}),
+    },
+    response: {
+      status: params.response.status,
+      status_text: params.response.statusText,
+      headers: redactHeaders(params.response.headers),
+      body: truncate(params.body),
+    },
+    status: 'open',
+    ...(params.receipt.settled == null ? { unconfirmed: true as const } : {}),
+  };
+  appendRecord(dispute);
+  return dispute;
+}
+
+/** Mark a dispute resolved (refunded, or given up on). Returns null for an unknown id. */
+export function resolveDispute(id: string, note?: string): Dispute | null {
+  const dispute = readDisputes().find(d => d.id === id);
+  if (!dispute) return null;
+  const resolution: Resolution = { resolves: id, resolved_at: new Date().toISOString(), ...(note ? { note } : {}) };
+  appendRecord(resolution);
+  dispute.status = 'resolved';
+  dispute.resolved_at = resolution.resolved_at;
+  if (note) dispute.note = note;
+  return dispute;
+}
+
+/** One-line summary, e.g. for tool results and the CLI. */
+export function formatDispute(d: Dispute): string {
+  const tx = d.receipt.transaction ? ` tx ${d.receipt.transaction}` : ' (no settlement tx reported)';
+  const paid = d.unconfirmed ? 'settlement unconfirmed for' : 'paid';
+  return `[${d.id}] ${d.service}: ${d.detail} — ${paid} ${d.receipt.amount_formatted} ($${d.receipt.amount_usd.toFixed(4)})${tx}`;
+}
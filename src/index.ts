@@ -2,12 +2,144 @@ import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { z } from 'zod';
 import { getOrCreateWallet, sponsorGas, checkUsdcBalance, getCoinbasePayUrl, loadWallet } from './wallet.js';
-import { fetchCatalog, fetchAssess, fetchRecommend, fetchProbe, x402Fetch } from './client.js';
+import {
+  fetchCatalog, fetchAssess, fetchRecommend, fetchProbe, x402Request, x402Quote, setPaymentApprover, type PaymentOptions,
+} from './client.js';
+import { formatSelection } from './selection.js';
+import { renderResponse, selectedHeaders, type ToolContent, type StreamLimits } from './response.js';
+import { formatReceipt, type PaymentReceipt } from './receipt.js';
+import { loadSnapshot, catalogEntries, searchCatalog, snapshotAgeDays, STALE_AFTER_DAYS } from './catalog.js';
+import { describeEndpoints, RequestValidationError } from './schema.js';
+import { installService, uninstallService, loadServices, probeService } from './services.js';
+import { registerServiceTools } from './service-tools.js';
+import { scanOrigin, formatScanSummary } from './scan.js';
+import { probeLocal, resolveProbeTarget } from './liveness.js';
+import { cachedDiscovery, formatCacheHit, type CacheHit } from './cache.js';
+import { readVerifications } from './verify.js';
+import { readDisputes, resolveDispute, formatDispute } from './disputes.js';
+import { ApprovalRequiredError, createElicitationApprover } from './approval.js';
+import { buildSpendReport, parseSince } from './report.js';
+import { getBudgetStatus } from './budget.js';
+import { checkBalances, formatBalanceLines } from './balances.js';
+import {
+  getNetwork, NETWORKS, homeNetwork, isTestnetMode, setNetworkMode, explorerAddressUrl, USDC_FAUCET_URL, GAS_FAUCET_URL,
+} from './networks.js';
+
+// `signal402-mcp --network testnet` is the same as SIGNAL402_NETWORK=testnet
+const networkArg = process.argv.indexOf('--network');
+if (networkArg !== -1 && process.argv[networkArg + 1]) {
+  setNetworkMode(process.argv[networkArg + 1]);
+}
+
+/** Tell the agent up front which services the user has installed — the ones they've vetted. */
+function serverInstructions(): string | undefined {
+  const services = loadServices();
+  if (services.length === 0) return undefined;
+  const lines = services.map(s =>
+    `- ${s.name} (${s.origin}): tools ${s.endpoints.map(e => e.tool).join(', ')}${s.notes ? ` — ${s.notes}` : ''}`
+  );
+  return [
+    'The user has installed (vetted) these x402 services. Prefer their x402__ tools over other services for the same task:',
+    ...lines,
+    'signal402_services lists them with settings and their last live check.',
+  ].join('\n');
+}
 
 const server = new McpServer({
   name: 'signal402',
   version: '0.1.0',
-});
+}, { instructions: serverInstructions() });
+
+// Payments that need approval (config.json → approval) are confirmed via elicitation
+setPaymentApprover(createElicitationApprover(server.server));
+
+/** JSON tool result, plus a receipt line for each payment made to produce it (or the cache hit that avoided one). */
+function paidResult({ result, receipts, hit }: { result: unknown; receipts: PaymentReceipt[]; hit: CacheHit | null }) {
+  const content: ToolContent[] = [{ type: 'text', text: JSON.stringify(result, null, 2) }];
+  if (hit) {
+    content.push({ type: 'text', text: formatCacheHit(hit) });
+  } else if (receipts.length > 0) {
+    content.push({ type: 'text', text: receipts.map(formatReceipt).join('\n') });
+  }
+  return { content };
+}
+
+const freshParam = z.boolean().default(false).describe('Skip the local cache and pay for a new answer');
+const allowRepayParam = z.boolean().default(false)
+  .describe('Sign a new payment even if this request was already paid for and the service refused that payment');
+
+/**
+ * Pay for and make one request, and turn the response into tool content:
+ * status, payment choice, receipt and dispute lines, then the rendered body.
+ * Shared by signal402_call and the installed service tools.
+ */
+async function paidCall(
+  url: string, reqInit: RequestInit, payment: PaymentOptions, limits: StreamLimits
+): Promise<{ content: ToolContent[]; isError?: boolean }> {
+  const wallet = loadWallet();
+  if (!wallet) {
+    return {
+      content: [{ type: 'text', text: 'No wallet configured. Run signal402_setup first.' }],
+      isError: true,
+    };
+  }
+
+  try {
+    const { response: res, selection, receipt, dispute, replayed, validation } = await x402Request(url, reqInit, payment);
+    const rendered = await renderResponse(res, url, limits);
+
+    const header = [
+      `HTTP ${res.status} ${res.statusText}`,
+      ...(validation?.schema ? ['Request matches the service\'s input schema'] : []),
+      ...(validation?.result.warnings ?? []).map(w => `Schema warning: ${w}`),
+      ...(selection ? formatSelection(selection) : []),
+      ...(replayed ? ['Resent the payment signed for an earlier attempt of this request — no new payment was signed'] : []),
+      ...(receipt ? [formatReceipt(receipt)] : []),
+      ...(dispute ? [`Paid but failed — recorded dispute ${formatDispute(dispute)}. See signal402_disputes for the evidence.`] : []),
+      ...Object.entries(selectedHeaders(res)).map(([name, value]) => `${name}: ${value}`),
+      ...rendered.summary,
+    ].join('\n');
+
+    // Text bodies share one block with the header, as before; images and
+    // saved files follow it as their own blocks
+    const [first, ...rest] = rendered.content;
+    const content: ToolContent[] = first?.type === 'text'
+      ? [{ type: 'text', text: `${header}\n\n${first.text}` }, ...rest]
+      : [{ type: 'text', text: header }, ...rendered.content];
+
+    return { content };
+  } catch (err: any) {
+    if (err instanceof ApprovalRequiredError) {
+      const result = {
+        approval_required: true,
+        ...err.request,
+        message: 'This payment needs user approval and this MCP client does not support elicitation. ' +
+          'Ask the user to confirm, then retry from an elicitation-capable client or adjust approval in ~/.signal402/config.json.',
+      };
+      return {
+        content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+        isError: true,
+      };
+    }
+    if (err instanceof RequestValidationError) {
+      const result = {
+        paid: false,
+        problems: err.validation.problems,
+        warnings: err.validation.warnings,
+        schema: err.schema,
+        message: 'Nothing was paid. Fix the request to match the schema and call again.',
+      };
+      return {
+        content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+        isError: true,
+      };
+    }
+    return {
+      content: [{ type: 'text', text: `Error: ${err.message}` }],
+      isError: true,
+    };
+  }
+}
 
 // Tool 1: signal402_setup (free, local)
 server.tool(
@@ -16,26 +148,46 @@ server.tool(
   { email: z.string().email().optional().describe('Email for wallet recovery (recommended)') },
   async ({ email }) => {
     const wallet = await getOrCreateWallet(email);
+    const home = homeNetwork();
+    const testnet = isTestnetMode();
     let gasSponsored = false;
-    if (wallet.isNew) {
+    if (wallet.isNew && !testnet) {
       gasSponsored = await sponsorGas(wallet.address);
     }
     const balance = await checkUsdcBalance(wallet.address);
     const funded = parseFloat(balance) > 0;
-    const coinbaseUrl = getCoinbasePayUrl(wallet.address);
-    const basescanUrl = `https://basescan.org/address/${wallet.address}`;
+    const explorerUrl = explorerAddressUrl(home, wallet.address);
 
     const lines = [
       wallet.isNew ? (wallet.isRecovered ? 'Wallet recovered! (email already registered)' : 'Wallet created!') : 'Wallet loaded from ~/.signal402/wallet.json',
       '',
       `Address: ${wallet.address}`,
       `Email: ${wallet.email || 'none (not recoverable)'}`,
-      `Gas sponsored: ${gasSponsored ? 'yes' : wallet.isNew ? 'failed (may already be sponsored)' : 'previously done'}`,
+      ...(testnet ? [`Network: ${home.name} (testnet mode — test USDC only, mainnet payments refused except Signal402's discovery tools)`] : []),
+      `Gas sponsored: ${testnet ? 'no (use a faucet on testnet)' : gasSponsored ? 'yes' : wallet.isNew ? 'failed (may already be sponsored)' : 'previously done'}`,
       `USDC balance: $${balance}`,
       '',
     ];
 
-    if (!funded) {
+    // USDC sitting on other chains can still pay services that accept them
+    const balances = await checkBalances(wallet.address).catch(() => []);
+    const elsewhere = balances.filter(b => b.network !== home.key && b.usdc != null && parseFloat(b.usdc) > 0);
+    if (elsewhere.length > 0) {
+      lines.push('USDC on other networks:', ...formatBalanceLines(elsewhere).map(l => `  ${l}`), '');
+    }
+
+    if (!funded && testnet) {
+      lines.push(
+        `Fund your wallet with test USDC on ${home.name}:`,
+        '',
+        `USDC faucet: ${USDC_FAUCET_URL} (pick ${home.name})`,
+        `ETH faucet:  ${GAS_FAUCET_URL}`,
+        `Address:     ${wallet.address}`,
+        '',
+        `Track: ${explorerUrl}`,
+      );
+    } else if (!funded) {
+      const coinbaseUrl = getCoinbasePayUrl(wallet.address);
       lines.push(
         'Fund your wallet with USDC on Base:',
         '',
@@ -48,7 +200,7 @@ server.tool(
         'Option 3: Bridge from another chain',
         '  Use https://jumper.exchange to bridge to Base',
         '',
-        `Track: ${basescanUrl}`,
+        `Track: ${explorerUrl}`,
         '',
         'Min recommended: $1.00 (100 catalog queries at $0.01 each)',
       );
@@ -65,89 +217,162 @@ server.tool(
 // Tool 2: signal402_catalog (paid $0.01)
 server.tool(
   'signal402_catalog',
-  'Browse the x402 ecosystem: facilitators, services, and whitespace opportunities. Costs $0.01 via x402.',
+  'Browse the x402 ecosystem: facilitators, services, and whitespace opportunities. Costs $0.01 via x402; repeats within an hour are free from the local cache.',
   {
     category: z.enum(['ai', 'data', 'media', 'tools', 'infrastructure']).optional().describe('Filter by category'),
     status: z.enum(['live', 'beta', 'announced', 'dead']).optional().describe('Filter by status'),
     sort: z.enum(['market_share', 'name']).optional().describe('Sort order'),
+    fresh: freshParam,
+    allow_repay: allowRepayParam,
   },
-  async ({ category, status, sort }) => {
-    const result = await fetchCatalog({ category, status, sort });
-    return {
-      content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
-    };
+  async ({ category, status, sort, fresh, allow_repay }) => {
+    const params = { category, status, sort };
+    return paidResult(await cachedDiscovery('signal402_catalog', params, fresh, () => fetchCatalog(params, { allowRepay: allow_repay })));
   }
 );
 
 // Tool 3: signal402_assess (paid $0.03)
 server.tool(
   'signal402_assess',
-  'Assess a specific x402 project. Is it real? Get verdict, recommendation, and alternatives. Costs $0.03 via x402.',
+  'Assess a specific x402 project. Is it real? Get verdict, recommendation, and alternatives. Costs $0.03 via x402; repeats within an hour are free from the local cache.',
   {
     url: z.string().url().optional().describe('Project URL to assess'),
     name: z.string().optional().describe('Project name to look up'),
+    fresh: freshParam,
+    allow_repay: allowRepayParam,
   },
-  async ({ url, name }) => {
+  async ({ url, name, fresh, allow_repay }) => {
     if (!url && !name) {
       return { content: [{ type: 'text', text: 'Please provide either a url or name to assess.' }] };
     }
-    const result = await fetchAssess({ url, name });
-    return {
-      content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
-    };
+    const params = { url, name };
+    return paidResult(await cachedDiscovery('signal402_assess', params, fresh, () => fetchAssess(params, { allowRepay: allow_repay })));
   }
 );
 
 // Tool 4: signal402_recommend (paid $0.02)
 server.tool(
   'signal402_recommend',
-  'Get ranked x402 service recommendations for a task. Describe what you need and get scored matches with explanations. Costs $0.02 via x402.',
+  'Get ranked x402 service recommendations for a task. Describe what you need and get scored matches with explanations. Costs $0.02 via x402; repeats within 15 min are free from the local cache.',
   {
     need: z.string().describe('What you need — e.g. "web scraping", "AI inference", "data enrichment"'),
     category: z.enum(['ai', 'data', 'media', 'tools', 'infrastructure']).optional().describe('Filter to a specific category'),
     max_price: z.number().optional().describe('Maximum price per request in USD (e.g. 0.01)'),
     status: z.enum(['live', 'beta']).optional().describe('Filter by service status'),
     limit: z.number().min(1).max(10).optional().describe('Max results to return (1-10, default 5)'),
+    fresh: freshParam,
+    allow_repay: allowRepayParam,
   },
-  async ({ need, category, max_price, status, limit }) => {
-    const result = await fetchRecommend({ need, category, max_price, status, limit });
-    return {
-      content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
-    };
+  async ({ need, category, max_price, status, limit, fresh, allow_repay }) => {
+    const params = { need, category, max_price, status, limit };
+    return paidResult(await cachedDiscovery('signal402_recommend', params, fresh, () => fetchRecommend(params, { allowRepay: allow_repay })));
   }
 );
 
-// Tool 5: signal402_probe (paid $0.01)
+// Tool 5: signal402_probe (paid $0.01, or free with local=true)
 server.tool(
   'signal402_probe',
-  'Check if an x402 service is alive and accepting payments right now. Returns health status, response time, live pricing, and catalog price comparison. Cached 5 min. Costs $0.01 via x402.',
+  'Check if an x402 service is alive and accepting payments right now. Returns health status, response time, live pricing, and catalog price comparison. Cached 5 min. Costs $0.01 via x402; repeats within 5 min are free from the local cache. ' +
+    'With local=true it is free: the service is checked directly from this machine, unpaid (latency, HTTP status, TLS, decoded payment requirements, and the live price against the local catalog snapshot).',
   {
     name: z.string().optional().describe('Service name to probe (e.g. "firecrawl", "zyte")'),
     url: z.string().url().optional().describe('Service URL to probe'),
+    fresh: freshParam,
+    allow_repay: allowRepayParam,
+    local: z.boolean().default(false).describe('Probe the service directly instead of asking Signal402 — free, nothing is signed. A name is looked up in installed services, then the catalog snapshot'),
+    method: z.enum(['GET', 'POST', 'PUT', 'DELETE']).default('GET').describe('With local=true: HTTP method to send'),
+    timeout: z.number().positive().max(60).default(10).describe('With local=true: seconds to wait for the service'),
   },
-  async ({ name, url }) => {
+  async ({ name, url, fresh, allow_repay, local, method, timeout }) => {
     if (!name && !url) {
       return { content: [{ type: 'text', text: 'Provide either a name or url to probe.' }] };
     }
-    const result = await fetchProbe({ name, url });
-    return {
-      content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
-    };
+    if (local) {
+      try {
+        const result = await probeLocal(url ?? resolveProbeTarget(name!), { method, timeoutMs: timeout * 1000 });
+        return {
+          content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+        };
+      } catch (err: any) {
+        return {
+          content: [{ type: 'text', text: `Error: ${err.message}` }],
+          isError: true,
+        };
+      }
+    }
+    const params = { name, url };
+    return paidResult(await cachedDiscovery('signal402_probe', params, fresh, () => fetchProbe(params, { allowRepay: allow_repay })));
   }
 );
 
 // Tool 6: signal402_call (pays target service directly)
 server.tool(
   'signal402_call',
-  'Call any x402 service and pay automatically. Your wallet pays the service directly — Signal402 is not in the payment path. Use signal402_recommend first to find the right service, then call it here.',
+  'Call any x402 service and pay automatically. Your wallet pays the service directly — Signal402 is not in the payment path. Use signal402_recommend first to find the right service, then call it here. ' +
+    'Images come back as image content, event streams as a transcript, and other binary bodies (audio, PDF, ...) are saved to a local file.',
   {
     url: z.string().url().describe('The x402 API endpoint URL to call'),
     method: z.enum(['GET', 'POST', 'PUT', 'DELETE']).default('GET').describe('HTTP method'),
     body: z.string().optional().describe('Request body (JSON string) for POST/PUT requests'),
     headers: z.record(z.string()).optional().describe('Additional headers to send'),
     max_cost: z.number().positive().default(0.10).describe('Maximum USD willing to pay per request (safety cap, default $0.10)'),
+    network: z.string().optional().describe('Only pay on this network, e.g. "base", "arbitrum" or "eip155:8453" (default: config.json → selection strategy)'),
+    dry_run: z.boolean().default(false).describe('Quote only: send the request unpaid and return every accepted payment option without signing anything'),
+    max_stream_kb: z.number().positive().default(100).describe('For text/event-stream responses: stop collecting the transcript after this many KB'),
+    stream_timeout: z.number().positive().default(60).describe('For text/event-stream responses: stop collecting after this many seconds. Other response bodies get as long to finish'),
+    timeout: z.number().positive().optional().describe('Seconds to wait for the service to respond, per attempt (default: config.json → requests, or 30)'),
+    retries: z.number().int().min(0).max(5).optional().describe('Retries on network errors, timeouts and 429/502/503/504 before paying (default 2). Once paid, only a lost response is retried, with the same payment'),
+    idempotency_key: z.string().optional().describe('Names this logical request. Retrying with the same key resends the payment already signed for it instead of paying again'),
+    allow_repay: allowRepayParam,
+    validate: z.boolean().default(false).describe('Check the body and query against the input schema in the service\'s 402 before paying; a mismatch returns the problems and the schema, and nothing is paid'),
+  },
+  async ({ url, method, body, headers, max_cost, network, dry_run, max_stream_kb, stream_timeout, timeout, retries, idempotency_key, allow_repay, validate }) => {
+    const reqInit: RequestInit = { method };
+    if (body) reqInit.body = body;
+    if (headers) reqInit.headers = { ...headers };
+
+    // Ensure Content-Type for POST/PUT with body
+    if (body && !headers?.['Content-Type'] && !headers?.['content-type']) {
+      reqInit.headers = { ...(reqInit.headers as Record<string, string>), 'Content-Type': 'application/json' };
+    }
+
+    if (dry_run) {
+      try {
+        const quote = await x402Quote(url, reqInit, { timeoutMs: timeout && timeout * 1000, retries });
+        return {
+          content: [{ type: 'text', text: JSON.stringify(quote, null, 2) }],
+        };
+      } catch (err: any) {
+        return {
+          content: [{ type: 'text', text: `Error: ${err.message}` }],
+          isError: true,
+        };
+      }
+    }
+
+    return paidCall(url, reqInit, {
+      maxCostUsd: max_cost,
+      tool: 'signal402_call',
+      network,
+      timeoutMs: timeout && timeout * 1000,
+      retries,
+      idempotencyKey: idempotency_key,
+      allowRepay: allow_repay,
+      validate,
+    }, { maxBytes: max_stream_kb * 1024, timeoutMs: stream_timeout * 1000 });
+  }
+);
+
+// Tool 7: signal402_balance (free, local)
+server.tool(
+  'signal402_balance',
+  'Show wallet balances (USDC + native gas token) across EVM networks: Base, Ethereum, Optimism, Arbitrum, Polygon and testnets. Free.',
+  {
+    networks: z.array(z.string()).optional().describe(
+      `Networks to check (default: those enabled in config). Known: ${NETWORKS.map(n => n.key).join(', ')}`
+    ),
   },
-  async ({ url, method, body, headers, max_cost }) => {
+  async ({ networks }) => {
     const wallet = loadWallet();
     if (!wallet) {
       return {
@@ -157,35 +382,279 @@ server.tool(
     }
 
     try {
-      const reqInit: RequestInit = { method };
-      if (body) reqInit.body = body;
-      if (headers) reqInit.headers = { ...headers };
+      const selected = networks?.map(key => {
+        const net = getNetwork(key);
+        if (!net) throw new Error(`Unknown network "${key}". Known: ${NETWORKS.map(n => n.key).join(', ')}`);
+        return net;
+      });
+      const balances = await checkBalances(wallet.address, selected);
+      return {
+        content: [{ type: 'text', text: JSON.stringify({ address: wallet.address, balances }, null, 2) }],
+      };
+    } catch (err: any) {
+      return {
+        content: [{ type: 'text', text: `Error: ${err.message}` }],
+        isError: true,
+      };
+    }
+  }
+);
 
-      // Ensure Content-Type for POST/PUT with body
-      if (body && !headers?.['Content-Type'] && !headers?.['content-type']) {
-        reqInit.headers = { ...(reqInit.headers as Record<string, string>), 'Content-Type': 'application/json' };
-      }
+// Tool 8: signal402_spend_report (free, local)
+server.tool(
+  'signal402_spend_report',
+  'Report what this wallet has spent via x402, from the local payment ledger. Totals by service and day, recent payments, remaining budgets, and failed on-chain settlement checks. Free.',
+  {
+    since: z.string().optional().describe('Only payments since a window ("24h", "7d") or date ("2026-01-31")'),
+    origin: z.string().optional().describe('Only payments to hosts containing this text (e.g. "firecrawl")'),
+    tool: z.string().optional().describe('Only payments made by this tool (e.g. "signal402_call")'),
+    min_amount: z.number().optional().describe('Only payments of at least this many USD'),
+    limit: z.number().min(0).max(200).default(20).describe('Number of recent payments to include (default 20)'),
+  },
+  async ({ since, origin, tool, min_amount, limit }) => {
+    try {
+      const sinceDate = since ? parseSince(since) : undefined;
+      const report = buildSpendReport({
+        since: sinceDate,
+        origin,
+        tool,
+        min_usd: min_amount,
+      });
+      // Receipts that didn't check out on-chain (config.json → verification)
+      const warnings = readVerifications().filter(v =>
+        v.status !== 'verified' && (!sinceDate || new Date(v.timestamp) >= sinceDate) && (!origin || v.url.includes(origin))
+      );
+      const result = {
+        ...report,
+        entries: report.entries.slice(0, limit),
+        budgets: getBudgetStatus(),
+        ...(warnings.length > 0 ? { settlement_warnings: warnings } : {}),
+      };
+      return {
+        content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+      };
+    } catch (err: any) {
+      return {
+        content: [{ type: 'text', text: `Error: ${err.message}` }],
+        isError: true,
+      };
+    }
+  }
+);
 
-      const res = await x402Fetch(url, reqInit, { maxCostUsd: max_cost });
-      const contentType = res.headers.get('content-type') || '';
-      let responseText: string;
-
-      if (contentType.includes('application/json')) {
-        const json = await res.json();
-        responseText = JSON.stringify(json, null, 2);
-      } else {
-        responseText = await res.text();
-        // Truncate very large responses
-        if (responseText.length > 50_000) {
-          responseText = responseText.slice(0, 50_000) + '\n\n[...truncated at 50KB]';
+// Tool 9: signal402_disputes (free, local)
+server.tool(
+  'signal402_disputes',
+  'List paid calls that failed anyway (error status after payment, empty body, or a body not matching the advertised schema), with the receipt and the request/response evidence for a refund request. Free.',
+  {
+    service: z.string().optional().describe('Only disputes with services whose host contains this text'),
+    status: z.enum(['open', 'all']).default('open').describe('Open disputes only (default) or resolved ones too'),
+    resolve: z.string().optional().describe('Mark the dispute with this id resolved instead of listing'),
+    note: z.string().optional().describe('With resolve: why it was resolved (e.g. "refunded 2026-03-01")'),
+  },
+  async ({ service, status, resolve, note }) => {
+    try {
+      if (resolve) {
+        const resolved = resolveDispute(resolve, note);
+        if (!resolved) {
+          return {
+            content: [{ type: 'text', text: `No dispute with id "${resolve}".` }],
+            isError: true,
+          };
         }
+        return {
+          content: [{ type: 'text', text: JSON.stringify(resolved, null, 2) }],
+        };
+      }
+
+      const all = readDisputes().filter(d => !service || d.service.includes(service));
+      const disputes = all.filter(d => status === 'all' || d.status === 'open').reverse();
+      const open = all.filter(d => d.status === 'open');
+      const result = {
+        count: disputes.length,
+        open_total_usd: Math.round(open.filter(d => !d.unconfirmed).reduce((s, d) => s + d.receipt.amount_usd, 0) * 1e6) / 1e6, // settled payments only
+        open_unconfirmed: open.filter(d => d.unconfirmed).length,
+        disputes,
+      };
+      return {
+        content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+      };
+    } catch (err: any) {
+      return {
+        content: [{ type: 'text', text: `Error: ${err.message}` }],
+        isError: true,
+      };
+    }
+  }
+);
+
+// Tool 10: signal402_search (free, local)
+server.tool(
+  'signal402_search',
+  'Search a local snapshot of the x402 catalog for free: keywords (typo-tolerant) plus filters on category, status, price, facilitator and network. ' +
+    'The snapshot is made with `signal402 catalog sync`; use the paid signal402_catalog for live data.',
+  {
+    query: z.string().optional().describe('Keywords matched against name, category, facilitator, network, URL and description, e.g. "scrape pdf"'),
+    category: z.string().optional().describe('Only this category (e.g. "ai", "data", "media", "tools", "infrastructure")'),
+    status: z.string().optional().describe('Only this status (e.g. "live", "beta")'),
+    max_price: z.number().optional().describe('Only services priced at or below this many USD per request'),
+    facilitator: z.string().optional().describe('Only services using a facilitator whose name contains this text'),
+    network: z.string().optional().describe('Only services on this network, e.g. "base" or "eip155:8453"'),
+    sort: z.enum(['relevance', 'name', 'price', 'market_share']).optional().describe('Sort order (default: relevance with a query, else name)'),
+    limit: z.number().min(1).max(100).default(20).describe('Max results (default 20)'),
+  },
+  async (q) => {
+    const snapshot = loadSnapshot();
+    if (!snapshot) {
+      return {
+        content: [{ type: 'text', text: 'No catalog snapshot yet. Run `signal402 catalog sync` (pays $0.01 once), or use signal402_catalog for live data.' }],
+        isError: true,
+      };
+    }
+
+    const entries = catalogEntries(snapshot.payload);
+    const results = searchCatalog(entries, q);
+    const age = snapshotAgeDays(snapshot);
+    const result = {
+      snapshot: { synced_at: snapshot.synced_at, age_days: Math.round(age * 10) / 10, services: entries.length },
+      count: results.length,
+      results,
+      ...(age > STALE_AFTER_DAYS ? { note: `Snapshot is ${Math.floor(age)} days old — run \`signal402 catalog sync\` to refresh it.` } : {}),
+    };
+    return {
+      content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+    };
+  }
+);
+
+// Tool 11: signal402_describe (free — never pays)
+server.tool(
+  'signal402_describe',
+  'Describe an x402 service before calling it: the endpoints its /.well-known/x402 lists, and for each the input schema (method, query parameters, body fields), output schema and price from its 402. Free — requests are sent unpaid.',
+  {
+    url: z.string().url().describe('An origin (describes every endpoint in its .well-known/x402) or a single endpoint URL'),
+    method: z.enum(['GET', 'POST', 'PUT', 'DELETE']).default('GET').describe('HTTP method, when describing a single endpoint'),
+  },
+  async ({ url, method }) => {
+    try {
+      const result = await describeEndpoints(url, method);
+      if (result.endpoints.length === 0) {
+        return {
+          content: [{ type: 'text', text: `${result.origin} lists no endpoints in /.well-known/x402. Pass an endpoint URL to describe it directly.` }],
+          isError: true,
+        };
       }
+      return {
+        content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+      };
+    } catch (err: any) {
+      return {
+        content: [{ type: 'text', text: `Error: ${err.message}` }],
+        isError: true,
+      };
+    }
+  }
+);
 
+// Tool 12: signal402_install (free — describes the service unpaid)
+server.tool(
+  'signal402_install',
+  'Install an x402 service as dedicated tools: one tool per paid endpoint (x402__<service>__<endpoint>), with parameters from the endpoint\'s schema and its price in the description. Installed services are the ones the user has vetted. Free — endpoints are described unpaid. Reinstall to pick up new endpoints or prices.',
+  {
+    service: z.string().describe('An origin (installs every paid endpoint in its .well-known/x402), a single endpoint URL, or a service name from the catalog snapshot'),
+    method: z.enum(['GET', 'POST', 'PUT', 'DELETE']).default('GET').describe('HTTP method, when installing a single endpoint'),
+    name: z.string().optional().describe('Service name used in tool names (default: from the hostname or catalog name)'),
+    max_cost: z.number().positive().optional().describe('Default USD cap per call for its tools (default: each endpoint\'s price at install)'),
+    network: z.string().optional().describe('Only pay this service on this network, e.g. "base" or "eip155:8453"'),
+    notes: z.string().optional().describe('Notes shown in its tool descriptions, e.g. what it is good for'),
+  },
+  async ({ service: target, method, name, max_cost, network, notes }) => {
+    try {
+      const service = await installService(target, { name, method, max_cost, network, notes });
+      syncServiceTools();
+      const lines = service.endpoints.map(e =>
+        `  ${e.tool} — ${e.method} ${e.url}, ${e.price_usd != null ? `$${e.price_usd}` : 'price unknown'}${e.schema ? '' : ' (no input schema)'}`
+      );
+      return {
+        content: [{ type: 'text', text: `Installed ${service.name} (${service.origin}):\n${lines.join('\n')}` }],
+      };
+    } catch (err: any) {
+      return {
+        content: [{ type: 'text', text: `Error: ${err.message}` }],
+        isError: true,
+      };
+    }
+  }
+);
+
+// Tool 13: signal402_uninstall (free, local)
+server.tool(
+  'signal402_uninstall',
+  'Remove an installed x402 service and its tools. Free.',
+  { name: z.string().describe('Service name, as in its tool names (x402__<name>__...)') },
+  async ({ name }) => {
+    const removed = uninstallService(name);
+    if (!removed) {
+      const installed = loadServices().map(s => s.name);
+      return {
+        content: [{ type: 'text', text: `No installed service "${name}". Installed: ${installed.join(', ') || 'none'}` }],
+        isError: true,
+      };
+    }
+    syncServiceTools();
+    return {
+      content: [{ type: 'text', text: `Uninstalled ${removed.name} — removed ${removed.endpoints.length} tool(s).` }],
+    };
+  }
+);
+
+// Tool 14: signal402_services (free — the live check is unpaid)
+server.tool(
+  'signal402_services',
+  'List the x402 services the user has installed (vetted), with their notes, settings, tools and the last live check. Prefer these over services found elsewhere. Free.',
+  {
+    check: z.boolean().default(false).describe('Check every endpoint live (unpaid) for its current price and status first'),
+  },
+  async ({ check }) => {
+    const services = loadServices();
+    if (services.length === 0) {
+      return {
+        content: [{ type: 'text', text: 'No services installed. Install one with signal402_install or `signal402 install <url or catalog name>`.' }],
+      };
+    }
+    const probes = check
+      ? new Map(await Promise.all(services.map(async s => [s.name, await probeService(s)] as const)))
+      : new Map(services.map(s => [s.name, s.last_probe ?? null]));
+    const result = services.map(s => ({
+      name: s.name,
+      origin: s.origin,
+      notes: s.notes ?? null,
+      max_cost: s.max_cost ?? null,
+      network: s.network ?? null,
+      tools: s.endpoints.map(e => ({ tool: e.tool, method: e.method, url: e.url, price_usd_at_install: e.price_usd })),
+      last_probe: probes.get(s.name) ?? null,
+    }));
+    return {
+      content: [{ type: 'text', text: JSON.stringify(result, null, 2) }],
+    };
+  }
+);
+
+// Tool 15: signal402_scan (free — never pays)
+server.tool(
+  'signal402_scan',
+  'Scan a domain for x402-protected paths: the endpoints its /.well-known/x402 lists, common API roots (/api, /v1, /v2, ...) and any paths you name. Reports each path that answers 402 with its decoded payment requirements and input schema. Free — every request is sent once, unpaid.',
+  {
+    origin: z.string().url().describe('The domain to scan, e.g. "https://api.example.com"'),
+    paths: z.array(z.string()).optional().describe('Extra paths to check, e.g. ["/search", "/v1/scrape"]'),
+    concurrency: z.number().int().min(1).max(16).default(4).describe('Requests in flight at once'),
+    timeout: z.number().positive().max(60).default(5).describe('Seconds to wait for each response'),
+  },
+  async ({ origin, paths, concurrency, timeout }) => {
+    try {
+      const scan = await scanOrigin(origin, { paths, concurrency, timeoutMs: timeout * 1000 });
       return {
-        content: [{
-          type: 'text',
-          text: `HTTP ${res.status} ${res.statusText}\n\n${responseText}`,
-        }],
+        content: [{ type: 'text', text: `${formatScanSummary(scan)}\n\n${JSON.stringify(scan, null, 2)}` }],
       };
     } catch (err: any) {
       return {
@@ -196,6 +665,11 @@ server.tool(
   }
 );
 
+// Installed services: one tool per endpoint, kept in step with ~/.signal402/services.json
+const syncServiceTools = registerServiceTools(server, (url, init, payment) =>
+  paidCall(url, init, payment, { maxBytes: 100 * 1024, timeoutMs: 60_000 })
+);
+
 // Start
 const transport = new StdioServerTransport();
 await server.connect(transport);
@@ -0,0 +1,108 @@
+/**
+ * Ethereum V3 Keystore (encrypted private key file)
+ *
+ * Same format as geth / MetaMask exports: the key is encrypted with
+ * AES-128-CTR under a scrypt-derived key, and a keccak256 MAC over
+ * (derivedKey[16..32] ‖ ciphertext) detects a wrong password.
+ * Decryption also accepts pbkdf2 keystores for compatibility with imports.
+ * Key derivation runs on libuv's thread pool: at geth's parameters it takes
+ * about a second, which would otherwise stall the MCP server.
+ */
+
+import { randomBytes, scrypt, pbkdf2, createCipheriv, createDecipheriv, randomUUID, type ScryptOptions } from 'crypto';
+import { promisify } from 'util';
+import { keccak256, type Hex } from 'viem';
+import { privateKeyToAddress } from 'viem/accounts';
+
+// geth "standard" scrypt parameters
+const SCRYPT_N = 262144;
+const SCRYPT_R = 8;
+const SCRYPT_P = 1;
+const DKLEN = 32;
+
+export interface KeystoreV3 {
+  version: 3;
+  id: string;
+  address: string; // lowercase, no 0x prefix
+  crypto: {
+    cipher: 'aes-128-ctr';
+    ciphertext: string;
+    cipherparams: { iv: string };
+    kdf: 'scrypt' | 'pbkdf2';
+    kdfparams: Record<string, number | string>;
+    mac: string;
+  };
+}
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number, options: ScryptOptions) => Promise<Buffer>;
+const pbkdf2Async = promisify(pbkdf2);
+
+function scryptMaxmem(n: number, r: number): number {
+  // Node's default cap (32MB) is below what N=2^18 needs
+  return 128 * n * r * 2;
+}
+
+async function deriveKey(password: string, ks: KeystoreV3['crypto']): Promise<Buffer> {
+  const params = ks.kdfparams;
+  const salt = Buffer.from(String(params.salt), 'hex');
+  const dklen = Number(params.dklen);
+
+  if (ks.kdf === 'scrypt') {
+    const n = Number(params.n);
+    const r = Number(params.r);
+    return scryptAsync(password, salt, dklen, { N: n, r, p: Number(params.p), maxmem: scryptMaxmem(n, r) });
+  }
+  if (ks.kdf === 'pbkdf2') {
+    if (params.prf !== 'hmac-sha256') throw new Error(`Unsupported pbkdf2 prf: ${params.prf}`);
+    return pbkdf2Async(password, salt, Number(params.c), dklen, 'sha256');
+  }
+  throw new Error(`Unsupported keystore kdf: ${ks.kdf}`);
+}
+
+function computeMac(derivedKey: Buffer, ciphertext: Buffer): string {
+  return keccak256(Buffer.concat([derivedKey.subarray(16, 32), ciphertext])).slice(2);
+}
+
+// ── Encrypt / Decrypt ───────────────────────────
+
+export async function encryptKeystore(privateKey: Hex, password: string): Promise<KeystoreV3> {
+  const salt = randomBytes(32);
+  const iv = randomBytes(16);
+  const derivedKey = await scryptAsync(password, salt, DKLEN, {
+    N: SCRYPT_N, r: SCRYPT_R, p: SCRYPT_P, maxmem: scryptMaxmem(SCRYPT_N, SCRYPT_R),
+  });
+
+  const cipher = createCipheriv('aes-128-ctr', derivedKey.subarray(0, 16), iv);
+  const ciphertext = Buffer.concat([cipher.update(Buffer.from(privateKey.slice(2), 'hex')), cipher.final()]);
+
+  return {
+    version: 3,
+    id: randomUUID(),
+    address: privateKeyToAddress(privateKey).slice(2).toLowerCase(),
+    crypto: {
+      cipher: 'aes-128-ctr',
+      ciphertext: ciphertext.toString('hex'),
+      cipherparams: { iv: iv.toString('hex') },
+      kdf: 'scrypt',
+      kdfparams: { n: SCRYPT_N, r: SCRYPT_R, p: SCRYPT_P, dklen: DKLEN, salt: salt.toString('hex') },
+      mac: computeMac(derivedKey, ciphertext),
+    },
+  };
+}
+
+export async function decryptKeystore(keystore: KeystoreV3, password: string): Promise<Hex> {
+  // Some tools write "Crypto" instead of "crypto"
+  const ks = keystore.crypto || (keystore as unknown as { Crypto: KeystoreV3['crypto'] }).Crypto;
+  if (!ks) throw new Error('Not a V3 keystore: missing crypto section');
+  if (ks.cipher !== 'aes-128-ctr') throw new Error(`Unsupported keystore cipher: ${ks.cipher}`);
+
+  const derivedKey = await deriveKey(password, ks);
+  const ciphertext = Buffer.from(ks.ciphertext, 'hex');
+  if (computeMac(derivedKey, ciphertext) !== ks.mac.toLowerCase()) {
+    throw new Error('Keystore MAC mismatch — wrong password?');
+  }
+
+  const decipher = createDecipheriv('aes-128-ctr', derivedKey.subarray(0, 16), Buffer.from(ks.cipherparams.iv, 'hex'));
+  const privateKey = Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+  return `0x${privateKey.toString('hex')}` as Hex;
+}
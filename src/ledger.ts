@@ -0,0 +1,96 @@
+/**
+ * Local Spend Ledger
+ *
+ * Append-only log of every x402 payment signed through x402Fetch, one JSON
+ * object per line in ~/.signal402/ledger.jsonl. Lets users reconcile agent
+ * spend against the wallet's on-chain history.
+ */
+
+import { appendFileSync, readFileSync, mkdirSync, existsSync } from 'fs';
+import { randomUUID } from 'crypto';
+import { homedir } from 'os';
+import { join } from 'path';
+
+const SIGNAL402_DIR = join(homedir(), '.signal402');
+const LEDGER_FILE = join(SIGNAL402_DIR, 'ledger.jsonl');
+
+/** Names this process in its ledger entries, so several servers sharing a ledger keep separate sessions. */
+export const SESSION_ID = randomUUID();
+
+export interface LedgerEntry {
+  timestamp: string;
+  url: string;
+  tool: string;            // MCP tool that triggered the payment (signal402_call, signal402_catalog, ...)
+  scheme: string;
+  network: string;
+  asset: string;
+  symbol?: string;         // from the asset registry (absent in entries before it existed)
+  amount: string;          // atomic units, as quoted by the service
+  amount_usd: number;      // converted with the asset registry's decimals and price
+  pay_to: string;
+  x402_version: number;
+  status: number | null;   // HTTP status of the paid response, null if the request failed
+  tx_hash?: string;        // settlement transaction from PAYMENT-RESPONSE
+  settled?: boolean;       // facilitator's settlement result, when reported
+  error?: string;
+  tags?: Record<string, string>; // caller-supplied labels (PaymentOptions.tags)
+  session?: string;        // SESSION_ID of the process that paid (absent in entries before it existed)
+}
+
+/** Append one payment to the ledger, stamped with this process's session. Never rewrites existing lines. */
+export function appendLedger(entry: Omit<LedgerEntry, 'session'>): void {
+  mkdirSync(SIGNAL402_DIR, { recursive: true, mode: 0o700 });
+  appendFileSync(LEDGER_FILE, JSON.stringify({ ...entry, session: SESSION_ID }) + '\n', { mode: 0o600 });
+}
+
+/** Read all ledger entries, oldest first. Malformed lines are skipped. */
+export function readLedger(): LedgerEntry[] {
+  if (!existsSync(LEDGER_FILE)) return [];
+
+  const entries: LedgerEntry[] = [];
+  for (const line of readFileSync(LEDGER_FILE, 'utf-8').split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      entries.push(JSON.parse(line));
+    } catch {
+      // Partial write from a crashed process — skip
+    }
+  }
+  return entries;
+}
+
+/** Payments the service rejected (402 again) never settled, so they don't count as spend. */
+export function isSpent(entry: LedgerEntry): boolean {
+  return entry.status !== 402;
+}
+
+// ── In-Flight Payments ──────────────────────────
+
+/**
+ * A payment this process has cleared but not yet written to the ledger.
+ * Budgets and the new-origin check count these too: between the check and
+ * the ledger line there are awaits (approval, signing, the paid request),
+ * and a concurrent call must not see the money as still unspent.
+ */
+export interface PendingPayment {
+  url: string;
+  amount_usd: number;
+  approved: boolean;       // passed the approval policy (asked, or no approval needed)
+}
+
+const pending = new Set<PendingPayment>();
+
+/** Start counting a payment. Pair with removePending once it's in the ledger or has failed. */
+export function addPending(url: string, amountUsd: number): PendingPayment {
+  const payment: PendingPayment = { url, amount_usd: amountUsd, approved: false };
+  pending.add(payment);
+  return payment;
+}
+
+export function removePending(payment: PendingPayment): void {
+  pending.delete(payment);
+}
+
+export function pendingPayments(): PendingPayment[] {
+  return [...pending];
+}
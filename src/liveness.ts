@@ -0,0 +1,194 @@
+/**
+ * Local Liveness Probe
+ *
+ * signal402_probe with local=true checks a service from this machine instead
+ * of paying Signal402 to do it. A 402 is proof enough that the service is up,
+ * and it carries the live price, so one unpaid request tells us:
+ * - whether it answers, how fast, and with what HTTP status
+ * - for https, the TLS version and certificate (checked on its own connection)
+ * - the payment options it accepts, decoded and priced
+ * - how the live price compares with the catalog snapshot's price
+ * Nothing is signed.
+ */
+
+import { connect, type PeerCertificate } from 'tls';
+import { isIP } from 'net';
+import { quoteResponse, type PaymentOption } from './client.js';
+import { sendWithRetry } from './transport.js';
+import { loadSnapshot, catalogEntries, searchCatalog, snapshotAgeDays, type CatalogEntry } from './catalog.js';
+import { loadServices } from './services.js';
+
+const DEFAULT_TIMEOUT_MS = 10_000;
+
+export interface TlsInfo {
+  protocol: string | null;        // e.g. "TLSv1.3"
+  cipher: string | null;
+  authorized: boolean;            // certificate chain verified for this hostname
+  error?: string;                 // why it isn't authorized, or why the handshake failed
+  issuer: string | null;
+  valid_to: string | null;
+  days_left: number | null;
+  handshake_ms: number | null;
+}
+
+export interface PriceComparison {
+  catalog_name: string;
+  catalog_price_usd: number | null;
+  live_price_usd: number | null;
+  difference_usd: number | null;
+  difference_pct: number | null;
+  snapshot_age_days: number;
+}
+
+export interface LocalProbe {
+  url: string;
+  checked_at: string;
+  alive: boolean;                 // the service answered at all
+  accepting_payments: boolean;    // it answered 402 with at least one payment option
+  http: { status: number; latency_ms: number } | null;
+  tls: TlsInfo | null;            // null for plain http
+  x402_version: number | null;
+  options: PaymentOption[];
+  live_price_usd: number | null;  // cheapest option
+  catalog: PriceComparison | null;
+  error?: string;
+}
+
+// ── Target ──────────────────────────────────────
+
+const host = (url: string) => new URL(url).hostname.replace(/^www\./, '');
+
+/**
+ * The URL to probe for a service name: an installed service's first endpoint,
+ * else the catalog snapshot's URL for it.
+ */
+export function resolveProbeTarget(name: string): string {
+  const installed = loadServices().find(s => s.name === name.toLowerCase() || s.catalog_name?.toLowerCase() === name.toLowerCase());
+  if (installed) return installed.endpoints[0]?.url ?? installed.origin;
+
+  const snapshot = loadSnapshot();
+  if (!snapshot) {
+    throw new Error(`"${name}" is not installed and there is no catalog snapshot to look it up in. Run \`signal402 catalog sync\` or pass a url.`);
+  }
+  const entries = catalogEntries(snapshot.payload).filter(e => e.url);
+  const match = entries.find(e => e.name.toLowerCase() === name.toLowerCase()) ?? searchCatalog(entries, { query: name, limit: 1 })[0];
+  if (!match) throw new Error(`No catalog service matching "${name}". Pass a url instead.`);
+  return match.url;
+}
+
+/** The catalog entry for the service at `url`: same host, or a parent domain of it. */
+function catalogEntryFor(url: string): { entry: CatalogEntry; ageDays: number } | null {
+  const snapshot = loadSnapshot();
+  if (!snapshot) return null;
+  const target = host(url);
+  const entry = catalogEntries(snapshot.payload).find(e => {
+    try {
+      const h = host(e.url);
+      return target === h || target.endsWith(`.${h}`);
+    } catch {
+      return false;
+    }
+  });
+  return entry ? { entry, ageDays: snapshotAgeDays(snapshot) } : null;
+}
+
+// ── Checks ──────────────────────────────────────
+
+function issuerName(cert: PeerCertificate): string | null {
+  const issuer = cert.issuer as unknown as Record<string, string | string[]> | undefined;
+  const value = issuer?.O ?? issuer?.CN;
+  return value == null ? null : Array.isArray(value) ? value.join(', ') : value;
+}
+
+/** TLS handshake on a separate connection, reporting what was negotiated and the certificate. */
+function checkTls(url: URL, timeoutMs: number): Promise<TlsInfo> {
+  const started = Date.now();
+  return new Promise(resolve => {
+    const failed = (error: string): TlsInfo => ({
+      protocol: null, cipher: null, authorized: false, error, issuer: null, valid_to: null, days_left: null, handshake_ms: null,
+    });
+    const socket = connect({
+      host: url.hostname,
+      port: Number(url.port) || 443,
+      ...(isIP(url.hostname) ? {} : { servername: url.hostname }), // SNI takes hostnames only
+      rejectUnauthorized: false, // report a bad certificate instead of failing the probe
+      timeout: timeoutMs,
+    }, () => {
+      const cert = socket.getPeerCertificate();
+      const validTo = cert?.valid_to ? new Date(cert.valid_to) : null;
+      resolve({
+        protocol: socket.getProtocol(),
+        cipher: socket.getCipher()?.name ?? null,
+        authorized: socket.authorized,
+        ...(socket.authorizationError ? { error: String(socket.authorizationError) } : {}),
+        issuer: cert ? issuerName(cert) : null,
+        valid_to: validTo?.toISOString() ?? null,
+        days_left: validTo ? Math.floor((validTo.getTime() - Date.now()) / 86_400_000) : null,
+        handshake_ms: Date.now() - started,
+      });
+      socket.end();
+    });
+    socket.on('timeout', () => {
+      resolve(failed(`No TLS handshake within ${timeoutMs / 1000}s`));
+      socket.destroy();
+    });
+    socket.on('error', err => resolve(failed(err.message)));
+  });
+}
+
+function compare(url: string, livePrice: number | null): PriceComparison | null {
+  const found = catalogEntryFor(url);
+  if (!found) return null;
+  const catalogPrice = found.entry.price_usd;
+  const difference = livePrice != null && catalogPrice != null ? livePrice - catalogPrice : null;
+  return {
+    catalog_name: found.entry.name,
+    catalog_price_usd: catalogPrice,
+    live_price_usd: livePrice,
+    difference_usd: difference != null ? Math.round(difference * 1e6) / 1e6 : null,
+    difference_pct: difference != null && catalogPrice ? Math.round(difference / catalogPrice * 1000) / 10 : null,
+    snapshot_age_days: Math.round(found.ageDays * 10) / 10,
+  };
+}
+
+/** Probe `url` from this machine, unpaid. */
+export async function probeLocal(url: string, opts: { method?: string; timeoutMs?: number } = {}): Promise<LocalProbe> {
+  const target = new URL(url);
+  const timeoutMs = opts.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const result: LocalProbe = {
+    url,
+    checked_at: new Date().toISOString(),
+    alive: false,
+    accepting_payments: false,
+    http: null,
+    tls: null,
+    x402_version: null,
+    options: [],
+    live_price_usd: null,
+    catalog: null,
+  };
+
+  const tls = target.protocol === 'https:' ? checkTls(target, timeoutMs) : Promise.resolve(null);
+  const started = Date.now();
+  try {
+    const res = await sendWithRetry(new Request(url, { method: opts.method ?? 'GET' }), { timeoutMs, retries: 0 });
+    result.alive = true;
+    result.http = { status: res.status, latency_ms: Date.now() - started }; // until headers, before pricing
+    const { quote } = await quoteResponse(url, res, timeoutMs);
+    result.x402_version = quote.x402_version;
+    result.options = quote.options;
+    result.accepting_payments = quote.payment_required && quote.options.length > 0;
+    const prices = quote.options.map(o => o.amount_usd).filter((n): n is number => n != null);
+    result.live_price_usd = prices.length > 0 ? Math.min(...prices) : null;
+    if (quote.error) result.error = quote.error;
+    else if (!quote.payment_required) result.error = `Answered HTTP ${quote.status} instead of 402 — not asking for payment at this URL`;
+  } catch (err) {
+    // fetch's "fetch failed" keeps the reason (ECONNREFUSED, ENOTFOUND, ...) in its cause
+    const cause = (err as { cause?: { code?: string; message?: string } }).cause;
+    const reason = cause?.code ?? cause?.message;
+    result.error = `${err instanceof Error ? err.message : String(err)}${reason ? ` (${reason})` : ''}`;
+  }
+  result.tls = await tls;
+  result.catalog = compare(url, result.live_price_usd);
+  return result;
+}
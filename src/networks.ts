@@ -0,0 +1,144 @@
+/**
+ * EVM Network Registry
+ *
+ * Every chain x402 payments can settle on, keyed by the x402 v1 network name
+ * ("base", "base-sepolia", ...) with its CAIP-2 id for v2. Holds the native
+ * USDC contract, explorer and default RPC for each; RPC URLs and the set of
+ * networks to check can be overridden in config.json → networks.
+ *
+ * Testnet mode (`--network testnet` or SIGNAL402_NETWORK=testnet) moves the
+ * wallet's home network from Base to Base Sepolia and refuses mainnet payments,
+ * except Signal402's own discovery calls (see client.ts).
+ */
+
+import { createPublicClient, http, type Chain, type PublicClient } from 'viem';
+import {
+  base, baseSepolia, mainnet, sepolia, optimism, optimismSepolia,
+  arbitrum, arbitrumSepolia, polygon, polygonAmoy, avalanche, avalancheFuji,
+} from 'viem/chains';
+import { loadConfig } from './config.js';
+
+export interface EvmNetwork {
+  key: string;            // x402 v1 network name
+  caip2: string;          // x402 v2 network id, e.g. "eip155:8453"
+  name: string;
+  chain: Chain;
+  usdc: `0x${string}`;    // Circle-issued native USDC
+  explorer: string;
+  testnet: boolean;
+}
+
+function network(key: string, name: string, chain: Chain, usdc: `0x${string}`, testnet = false): EvmNetwork {
+  return {
+    key,
+    caip2: `eip155:${chain.id}`,
+    name,
+    chain,
+    usdc,
+    explorer: chain.blockExplorers!.default.url,
+    testnet,
+  };
+}
+
+export const NETWORKS: EvmNetwork[] = [
+  network('base', 'Base', base, '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913'),
+  network('ethereum', 'Ethereum', mainnet, '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48'),
+  network('optimism', 'Optimism', optimism, '0x0b2C639c533813f4Aa9D7837CAf62653d097Ff85'),
+  network('arbitrum', 'Arbitrum', arbitrum, '0xaf88d065e77c8cC2239327C5EDb3A432268e5831'),
+  network('polygon', 'Polygon', polygon, '0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359'),
+  network('avalanche', 'Avalanche', avalanche, '0xB97EF9Ef8734C71904D8002F8b6Bc66Dd9c48a6E'),
+  network('base-sepolia', 'Base Sepolia', baseSepolia, '0x036CbD53842c5426634e7929541eC2318f3dCF7e', true),
+  network('sepolia', 'Ethereum Sepolia', sepolia, '0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238', true),
+  network('optimism-sepolia', 'Optimism Sepolia', optimismSepolia, '0x5fd84259d66Cd46123540766Be93DFE6D43130D7', true),
+  network('arbitrum-sepolia', 'Arbitrum Sepolia', arbitrumSepolia, '0x75faf114eafb1BDbe2F0316DF893fd58CE46AA4d', true),
+  network('polygon-amoy', 'Polygon Amoy', polygonAmoy, '0x41E94Eb019C0762f9Bfcf9Fb1E58725BfB0e7582', true),
+  network('avalanche-fuji', 'Avalanche Fuji', avalancheFuji, '0x5425890298aed601595a70AB815c96711a31Bc65', true),
+];
+
+// Checked by default when config.json doesn't list networks
+const DEFAULT_ENABLED = ['base', 'ethereum', 'optimism', 'arbitrum', 'polygon', 'base-sepolia'];
+
+// Circle's faucet hands out test USDC on Base Sepolia and the other testnets
+export const USDC_FAUCET_URL = 'https://faucet.circle.com';
+export const GAS_FAUCET_URL = 'https://portal.cdp.coinbase.com/products/faucet';
+
+// ── Network Mode ────────────────────────────────
+
+export type NetworkMode = 'mainnet' | 'testnet';
+
+function parseMode(value: string): NetworkMode {
+  const v = value.trim().toLowerCase();
+  if (v === 'mainnet' || v === 'base') return 'mainnet';
+  if (v === 'testnet' || v === 'base-sepolia') return 'testnet';
+  throw new Error(`Unknown network mode "${value}" — use "mainnet" or "testnet"`);
+}
+
+/** mainnet (default) or testnet, from SIGNAL402_NETWORK. */
+export function networkMode(): NetworkMode {
+  const env = process.env.SIGNAL402_NETWORK;
+  return env ? parseMode(env) : 'mainnet';
+}
+
+/** Switch mode for this process (the `--network` flag). Throws on unknown values. */
+export function setNetworkMode(value: string): NetworkMode {
+  const mode = parseMode(value);
+  process.env.SIGNAL402_NETWORK = mode;
+  return mode;
+}
+
+export function isTestnetMode(): boolean {
+  return networkMode() === 'testnet';
+}
+
+/** Where the wallet is funded and Signal402 itself is paid: Base, or Base Sepolia in testnet mode. */
+export function homeNetwork(): EvmNetwork {
+  return getNetwork(isTestnetMode() ? 'base-sepolia' : 'base')!;
+}
+
+/**
+ * Why a payment on `network` is not allowed in the current mode, or null.
+ * Testnet mode only pays on known testnets, so services can't take real USDC.
+ */
+export function checkNetworkMode(network: string): string | null {
+  if (!isTestnetMode()) return null;
+  const net = getNetwork(network);
+  if (net?.testnet) return null;
+  return `Testnet mode: refusing to pay on ${net ? net.name : network} (mainnet). ` +
+    `Unset SIGNAL402_NETWORK or pass --network mainnet to spend real USDC.`;
+}
+
+// ── Lookup ──────────────────────────────────────
+
+/**
+ * Find a network by v1 name ("base"), CAIP-2 id ("eip155:8453") or chain id.
+ */
+export function getNetwork(id: string | number): EvmNetwork | undefined {
+  const key = String(id).toLowerCase();
+  return NETWORKS.find(n => n.key === key || n.caip2 === key || String(n.chain.id) === key);
+}
+
+/** Networks to report balances for (config.json → networks.enabled). */
+export function enabledNetworks(): EvmNetwork[] {
+  const keys = loadConfig().networks?.enabled ?? DEFAULT_ENABLED;
+  return keys.map(k => {
+    const n = getNetwork(k);
+    if (!n) throw new Error(`Unknown network in config.json: "${k}" (known: ${NETWORKS.map(n => n.key).join(', ')})`);
+    return n;
+  });
+}
+
+export function rpcUrlFor(net: EvmNetwork): string {
+  return loadConfig().networks?.rpc?.[net.key] ?? net.chain.rpcUrls.default.http[0];
+}
+
+export function publicClientFor(net: EvmNetwork): PublicClient {
+  return createPublicClient({ chain: net.chain, transport: http(rpcUrlFor(net), { timeout: 10_000 }) }) as PublicClient;
+}
+
+export function explorerAddressUrl(net: EvmNetwork, address: string): string {
+  return `${net.explorer}/address/${address}`;
+}
+
+export function explorerTxUrl(net: EvmNetwork, hash: string): string {
+  return `${net.explorer}/tx/${hash}`;
+}
@@ -0,0 +1,97 @@
+/**
+ * Outbound Payment Policy
+ *
+ * Allow/deny rules for who the wallet may pay, read from
+ * ~/.signal402/policy.json and enforced before any payment is signed:
+ *
+ *   {
+ *     "deny":  { "origins": ["*.sketchy.xyz"] },
+ *     "allow": { "origins": ["signal402.com", "*.firecrawl.dev"], "networks": ["eip155:8453"] }
+ *   }
+ *
+ * Deny rules win. A non-empty allow list means "only these". Origin patterns
+ * are hostnames (or full origins) where `*` matches any run of characters;
+ * `*.example.com` matches subdomains, not example.com itself.
+ */
+
+import { readFileSync, existsSync } from 'fs';
+import { homedir } from 'os';
+import { join } from 'path';
+
+const POLICY_FILE = join(homedir(), '.signal402', 'policy.json');
+
+export interface PolicyRules {
+  origins?: string[];  // hostname or origin patterns, wildcards allowed
+  pay_to?: string[];   // recipient addresses (case-insensitive)
+  networks?: string[]; // CAIP-2 ids ("eip155:8453") or v1 names ("base"), wildcards allowed
+}
+
+export interface SpendPolicy {
+  allow?: PolicyRules;
+  deny?: PolicyRules;
+}
+
+export function loadPolicy(): SpendPolicy {
+  if (!existsSync(POLICY_FILE)) return {};
+  try {
+    return JSON.parse(readFileSync(POLICY_FILE, 'utf-8'));
+  } catch (err) {
+    // A broken policy must not silently turn into "allow everything"
+    throw new Error(`Invalid ${POLICY_FILE}: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+// ── Matching ────────────────────────────────────
+
+function globToRegExp(pattern: string): RegExp {
+  const escaped = pattern.replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*');
+  return new RegExp(`^${escaped}$`, 'i');
+}
+
+function matchesOrigin(url: URL, pattern: string): boolean {
+  // Patterns with a scheme match the full origin, otherwise just the hostname
+  const target = pattern.includes('://') ? url.origin : url.hostname;
+  return globToRegExp(pattern.replace(/\/$/, '')).test(target);
+}
+
+function matchesValue(value: string, pattern: string): boolean {
+  return globToRegExp(pattern).test(value);
+}
+
+// ── Enforcement ─────────────────────────────────
+
+/**
+ * Check a pending payment against the policy.
+ * Returns a reason naming the rule that fired, or null if the payment is allowed.
+ */
+export function checkPolicy(
+  url: string,
+  payment: { payTo: string; network: string },
+  policy: SpendPolicy = loadPolicy(),
+): string | null {
+  let target: URL;
+  try {
+    target = new URL(url);
+  } catch {
+    return `Blocked by payment policy: cannot parse URL ${url}`;
+  }
+
+  const checks: Array<{ list: keyof PolicyRules; value: string; match: (pattern: string) => boolean }> = [
+    { list: 'origins', value: target.hostname, match: p => matchesOrigin(target, p) },
+    { list: 'pay_to', value: payment.payTo, match: p => p.toLowerCase() === payment.payTo.toLowerCase() },
+    { list: 'networks', value: payment.network, match: p => matchesValue(payment.network, p) },
+  ];
+
+  for (const { list, value, match } of checks) {
+    const denied = policy.deny?.[list]?.find(match);
+    if (denied) {
+      return `Blocked by payment policy rule deny.${list} "${denied}" (matched ${value}).`;
+    }
+    const allowed = policy.allow?.[list];
+    if (allowed && allowed.length > 0 && !allowed.some(match)) {
+      return `Blocked by payment policy rule allow.${list}: ${value} is not in the allowlist.`;
+    }
+  }
+
+  return null;
+}
@@ -0,0 +1,95 @@
+/**
+ * x402 Settlement Receipts
+ *
+ * After settling a payment, services return the facilitator's result in a
+ * response header: PAYMENT-RESPONSE (v2) or X-PAYMENT-RESPONSE (v1), base64
+ * JSON with the transaction hash, network and payer. Combined with what we
+ * signed, that becomes the receipt shown in tool results and kept in the ledger.
+ */
+
+import { decodePaymentResponseHeader } from '@x402/fetch';
+import { getNetwork, explorerTxUrl } from './networks.js';
+import type { PricedAmount } from './assets.js';
+import type { VerificationResult } from './verify.js';
+
+export interface SettlementReceipt {
+  success: boolean;
+  transaction: string;  // settlement tx hash
+  network: string;
+  payer?: string;
+  error_reason?: string;
+}
+
+/** Decode the settlement header of a paid response, or null if there is none (or it's garbled). */
+export function parseReceipt(res: Response): SettlementReceipt | null {
+  const header = res.headers.get('PAYMENT-RESPONSE') ?? res.headers.get('X-PAYMENT-RESPONSE');
+  if (!header) return null;
+  try {
+    const settle = decodePaymentResponseHeader(header);
+    return {
+      success: settle.success,
+      transaction: settle.transaction,
+      network: settle.network,
+      ...(settle.payer ? { payer: settle.payer } : {}),
+      ...(settle.errorReason ? { error_reason: settle.errorReason } : {}),
+    };
+  } catch {
+    return null;
+  }
+}
+
+// ── Payment Receipts ────────────────────────────
+
+/** What was paid for one request, with the service's settlement result. */
+export interface PaymentReceipt {
+  url: string;
+  amount: string;            // atomic units
+  amount_formatted: string;  // e.g. "0.01 USDC"
+  amount_usd: number;
+  network: string;
+  pay_to: string;
+  settled: boolean | null;   // null when the service sent no settlement header
+  transaction: string | null;
+  explorer_url: string | null;
+  payer?: string;
+  error_reason?: string;
+  verification?: VerificationResult; // on-chain check, when enabled in config
+}
+
+export function buildReceipt(
+  url: string,
+  payment: { network: string; amount: string; pay_to: string; priced: PricedAmount },
+  settlement: SettlementReceipt | null
+): PaymentReceipt {
+  const tx = settlement?.transaction || null;
+  const net = getNetwork(settlement?.network ?? payment.network);
+  return {
+    url,
+    amount: payment.amount,
+    amount_formatted: `${payment.priced.amount_formatted} ${payment.priced.symbol}`,
+    amount_usd: payment.priced.amount_usd,
+    network: settlement?.network ?? payment.network,
+    pay_to: payment.pay_to,
+    settled: settlement ? settlement.success : null,
+    transaction: tx,
+    explorer_url: tx && net ? explorerTxUrl(net, tx) : null,
+    ...(settlement?.payer ? { payer: settlement.payer } : {}),
+    ...(settlement?.error_reason ? { error_reason: settlement.error_reason } : {}),
+  };
+}
+
+/** Summary for tool results: one line, plus a warning if on-chain verification failed. */
+export function formatReceipt(receipt: PaymentReceipt): string {
+  const line = formatPayment(receipt);
+  const v = receipt.verification;
+  if (!v) return line;
+  if (v.status === 'verified') return `${line}\nVerified on-chain: ${v.detail}`;
+  return `${line}\nWARNING: settlement verification ${v.status} — ${v.detail} (logged to ~/.signal402/verifications.jsonl)`;
+}
+
+function formatPayment(receipt: PaymentReceipt): string {
+  const paid = `${receipt.amount_formatted} ($${receipt.amount_usd.toFixed(4)}) to ${receipt.pay_to} on ${getNetwork(receipt.network)?.name ?? receipt.network}`;
+  if (receipt.settled === false) return `Payment of ${paid} failed to settle: ${receipt.error_reason ?? 'unknown reason'}`;
+  if (!receipt.transaction) return `Paid ${paid} — service sent no settlement receipt`;
+  return `Paid ${paid} — tx ${receipt.transaction}${receipt.explorer_url ? ` (${receipt.explorer_url})` : ''}`;
+}
@@ -0,0 +1,109 @@
+/**
+ * Spend Reports
+ *
+ * Filters and aggregates the local ledger for the `signal402 history` CLI
+ * and the signal402_spend_report MCP tool. Totals only count payments that
+ * were accepted (see isSpent); rejected attempts still show in the list.
+ */
+
+import { readLedger, isSpent, type LedgerEntry } from './ledger.js';
+
+export interface SpendFilter {
+  since?: Date;
+  origin?: string;    // substring match on hostname, e.g. "firecrawl"
+  tool?: string;
+  min_usd?: number;
+}
+
+export interface SpendTotal {
+  key: string;
+  count: number;
+  total_usd: number;
+}
+
+export interface SpendReport {
+  since: string | null;
+  count: number;
+  total_usd: number;
+  by_service: SpendTotal[];
+  by_day: SpendTotal[];
+  entries: LedgerEntry[]; // newest first
+}
+
+// ── Filtering ───────────────────────────────────
+
+/**
+ * Parse a --since value: a relative window ("30m", "24h", "7d", "2w")
+ * or anything Date can parse ("2026-01-31").
+ */
+export function parseSince(value: string): Date {
+  const rel = value.trim().match(/^(\d+)\s*([mhdw])$/i);
+  if (rel) {
+    const unitMs = { m: 60_000, h: 3_600_000, d: 86_400_000, w: 7 * 86_400_000 }[rel[2].toLowerCase() as 'm' | 'h' | 'd' | 'w'];
+    return new Date(Date.now() - Number(rel[1]) * unitMs);
+  }
+  const date = new Date(value);
+  if (isNaN(date.getTime())) throw new Error(`Invalid since value: "${value}" (use e.g. 24h, 7d or 2026-01-31)`);
+  return date;
+}
+
+/** Hostname a payment went to — the "service" payments are grouped by. */
+export function serviceOf(entry: LedgerEntry): string {
+  try {
+    return new URL(entry.url).hostname;
+  } catch {
+    return entry.url;
+  }
+}
+
+function matches(entry: LedgerEntry, filter: SpendFilter): boolean {
+  if (filter.since && Date.parse(entry.timestamp) < filter.since.getTime()) return false;
+  if (filter.origin && !serviceOf(entry).toLowerCase().includes(filter.origin.toLowerCase())) return false;
+  if (filter.tool && entry.tool !== filter.tool) return false;
+  if (filter.min_usd != null && (entry.amount_usd || 0) < filter.min_usd) return false;
+  return true;
+}
+
+// ── Aggregation ─────────────────────────────────
+
+function groupTotals(entries: LedgerEntry[], keyOf: (e: LedgerEntry) => string): SpendTotal[] {
+  const groups = new Map<string, SpendTotal>();
+  for (const e of entries) {
+    const key = keyOf(e);
+    const group = groups.get(key) || { key, count: 0, total_usd: 0 };
+    group.count++;
+    group.total_usd += e.amount_usd || 0;
+    groups.set(key, group);
+  }
+  return [...groups.values()];
+}
+
+export function buildSpendReport(filter: SpendFilter = {}): SpendReport {
+  const entries = readLedger().filter(e => matches(e, filter)).reverse();
+  const spent = entries.filter(isSpent);
+
+  return {
+    since: filter.since ? filter.since.toISOString() : null,
+    count: spent.length,
+    total_usd: spent.reduce((sum, e) => sum + (e.amount_usd || 0), 0),
+    by_service: groupTotals(spent, serviceOf).sort((a, b) => b.total_usd - a.total_usd),
+    by_day: groupTotals(spent, e => e.timestamp.slice(0, 10)).sort((a, b) => b.key.localeCompare(a.key)),
+    entries,
+  };
+}
+
+// ── Export ──────────────────────────────────────
+
+const CSV_COLUMNS: Array<keyof LedgerEntry> = [
+  'timestamp', 'tool', 'url', 'amount_usd', 'amount', 'symbol', 'asset', 'network', 'pay_to', 'scheme', 'x402_version', 'status', 'tx_hash', 'settled', 'error',
+];
+
+function csvField(value: unknown): string {
+  const text = value == null ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(entries: LedgerEntry[]): string {
+  const rows = entries.map(e => CSV_COLUMNS.map(col => csvField(e[col])).join(','));
+  return [CSV_COLUMNS.join(','), ...rows].join('\n');
+}
@@ -0,0 +1,177 @@
+/**
+ * Response Rendering for signal402_call
+ *
+ * Turns a paid HTTP response into MCP tool content based on its content type:
+ * - JSON / text: pretty-printed or raw, truncated at a size cap
+ * - images: MCP image content (saved to a file instead when very large)
+ * - text/event-stream: collected into a transcript until the stream ends,
+ *   a size cap or a time limit is hit
+ * - anything else (audio, video, PDF, archives): saved under
+ *   ~/.signal402/downloads/ and described by path, size and sha256
+ * Every body is read under the same time limit. One that doesn't finish is
+ * shown as far as it got, or not saved if it's a file.
+ */
+
+import { createHash } from 'crypto';
+import { mkdirSync, writeFileSync } from 'fs';
+import { homedir } from 'os';
+import { join } from 'path';
+import { readBody } from './transport.js';
+
+const DOWNLOADS_DIR = join(homedir(), '.signal402', 'downloads');
+
+const MAX_TEXT_BYTES = 50_000;
+const MAX_INLINE_IMAGE_BYTES = 5 * 1024 * 1024;
+
+// Headers worth showing the agent; everything else is noise
+const SELECTED_HEADERS = [
+  'content-type', 'content-length', 'content-disposition', 'cache-control', 'retry-after',
+  'x-request-id', 'request-id', 'x-ratelimit-limit', 'x-ratelimit-remaining', 'x-ratelimit-reset',
+];
+
+const EXTENSIONS: Record<string, string> = {
+  'application/pdf': 'pdf', 'application/zip': 'zip', 'application/gzip': 'gz',
+  'audio/mpeg': 'mp3', 'audio/wav': 'wav', 'audio/x-wav': 'wav', 'audio/ogg': 'ogg', 'audio/webm': 'weba',
+  'video/mp4': 'mp4', 'video/webm': 'webm',
+  'image/png': 'png', 'image/jpeg': 'jpg', 'image/gif': 'gif', 'image/webp': 'webp', 'image/svg+xml': 'svg',
+};
+
+export type ToolContent =
+  | { type: 'text'; text: string }
+  | { type: 'image'; data: string; mimeType: string };
+
+export interface StreamLimits {
+  maxBytes: number;   // stop collecting an event stream after this many bytes
+  timeoutMs: number;  // ...or after this long; other bodies get as long to finish
+}
+
+export interface RenderedResponse {
+  kind: 'json' | 'text' | 'image' | 'stream' | 'file';
+  summary: string[];      // extra lines for the result header (file path, stream status)
+  content: ToolContent[]; // body blocks
+}
+
+/** The subset of response headers worth reporting. */
+export function selectedHeaders(res: Response): Record<string, string> {
+  const out: Record<string, string> = {};
+  for (const name of SELECTED_HEADERS) {
+    const value = res.headers.get(name);
+    if (value) out[name] = value;
+  }
+  return out;
+}
+
+function mimeType(res: Response): string {
+  return (res.headers.get('content-type') || '').split(';')[0].trim().toLowerCase();
+}
+
+function isTextual(mime: string): boolean {
+  return mime === '' || mime.startsWith('text/') || /json|xml|javascript|yaml|x-www-form-urlencoded|graphql/.test(mime);
+}
+
+function truncate(text: string): string {
+  if (text.length <= MAX_TEXT_BYTES) return text;
+  return text.slice(0, MAX_TEXT_BYTES) + `\n\n[...truncated at ${MAX_TEXT_BYTES / 1000}KB]`;
+}
+
+// ── Files ───────────────────────────────────────
+
+/** Filename from Content-Disposition, reduced to safe characters. */
+function dispositionFilename(res: Response): string | null {
+  const header = res.headers.get('content-disposition') || '';
+  const match = header.match(/filename\*?=(?:UTF-8'')?"?([^";]+)"?/i);
+  if (!match) return null;
+  const name = decodeURIComponent(match[1]).replace(/[^\w.-]+/g, '_').replace(/^\.+/, '');
+  return name || null;
+}
+
+/** Write a body to ~/.signal402/downloads and describe it. */
+function saveBody(res: Response, url: string, body: Buffer, mime: string): string[] {
+  mkdirSync(DOWNLOADS_DIR, { recursive: true, mode: 0o700 });
+  const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+  const name = dispositionFilename(res) ?? `${new URL(url).hostname}.${EXTENSIONS[mime] ?? 'bin'}`;
+  const path = join(DOWNLOADS_DIR, `${stamp}-${name}`);
+  writeFileSync(path, body, { mode: 0o600 });
+
+  return [
+    `Saved ${mime || 'unknown type'} body to ${path}`,
+    `Size: ${body.length} bytes`,
+    `SHA-256: ${createHash('sha256').update(body).digest('hex')}`,
+  ];
+}
+
+// ── Event Streams ───────────────────────────────
+
+/** Read an event stream until it ends, `maxBytes` arrive, or `timeoutMs` passes. */
+async function collectStream(res: Response, limits: StreamLimits): Promise<{ raw: string; stopped: string }> {
+  const { body, stopped } = await readBody(res, limits);
+  return {
+    raw: body.toString('utf-8'),
+    stopped: stopped === 'timeout' ? `stopped after ${Math.round(limits.timeoutMs / 1000)}s`
+      : stopped === 'size' ? `truncated at ${Math.round(limits.maxBytes / 1024)}KB`
+      : 'complete',
+  };
+}
+
+/** Parse SSE frames into one line per event: "[event] data" or just the data. */
+function sseTranscript(raw: string): string[] {
+  const events: string[] = [];
+  for (const frame of raw.split(/\r?\n\r?\n/)) {
+    let event = '';
+    const data: string[] = [];
+    for (const line of frame.split(/\r?\n/)) {
+      if (line.startsWith('event:')) event = line.slice(6).trim();
+      else if (line.startsWith('data:')) data.push(line.slice(5).replace(/^ /, ''));
+    }
+    if (data.length === 0) continue; // comments, keep-alives, retry hints
+    events.push(event && event !== 'message' ? `[${event}] ${data.join('\n')}` : data.join('\n'));
+  }
+  return events;
+}
+
+// ── Render ──────────────────────────────────────
+
+export async function renderResponse(res: Response, url: string, limits: StreamLimits): Promise<RenderedResponse> {
+  const mime = mimeType(res);
+
+  if (mime === 'text/event-stream') {
+    const { raw, stopped } = await collectStream(res, limits);
+    const events = sseTranscript(raw);
+    return {
+      kind: 'stream',
+      summary: [`Event stream: ${events.length} events (${stopped})`],
+      content: [{ type: 'text', text: truncate(events.join('\n')) }],
+    };
+  }
+
+  const { body, stopped } = await readBody(res, { timeoutMs: limits.timeoutMs });
+  if (stopped !== 'complete') {
+    const cutOff = `Body incomplete: it didn't finish within ${limits.timeoutMs / 1000}s (${body.length} bytes received)`;
+    return isTextual(mime) && mime !== 'image/svg+xml'
+      ? { kind: 'text', summary: [cutOff], content: [{ type: 'text', text: truncate(body.toString('utf-8')) }] }
+      : { kind: 'file', summary: [cutOff, 'Not saved, since the file would be incomplete'], content: [] };
+  }
+
+  if (mime.includes('json')) {
+    const text = body.toString('utf-8');
+    try {
+      return { kind: 'json', summary: [], content: [{ type: 'text', text: truncate(JSON.stringify(JSON.parse(text), null, 2)) }] };
+    } catch {
+      return { kind: 'text', summary: ['Body is not valid JSON despite its content type'], content: [{ type: 'text', text: truncate(text) }] };
+    }
+  }
+
+  if (isTextual(mime) && mime !== 'image/svg+xml') {
+    return { kind: 'text', summary: [], content: [{ type: 'text', text: truncate(body.toString('utf-8')) }] };
+  }
+
+  if (mime.startsWith('image/') && body.length <= MAX_INLINE_IMAGE_BYTES) {
+    return {
+      kind: 'image',
+      summary: [`Image: ${mime}, ${body.length} bytes`],
+      content: [{ type: 'image', data: body.toString('base64'), mimeType: mime }],
+    };
+  }
+
+  return { kind: 'file', summary: saveBody(res, url, body, mime), content: [] };
+}
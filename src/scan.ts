@@ -0,0 +1,154 @@
+/**
+ * x402 Endpoint Scanner
+ *
+ * Finds the x402-protected paths on an origin without paying anything:
+ * - the endpoints its /.well-known/x402 lists
+ * - common API roots (/api, /v1, /v2, ...), which often answer 402 themselves
+ * - any extra paths the caller names
+ *
+ * Each candidate is sent once, unpaid, with a timeout and a bound on how many
+ * run at a time. A 402 is decoded into its payment options (priced where the
+ * asset is known) and any input schema it advertises. Other responses whose
+ * body mentions x402Version are reported too, since some services answer
+ * 200 with their requirements or put them behind a different status.
+ */
+
+import { discoverEndpoints, schemaFrom402, type EndpointSchema } from './schema.js';
+import { quoteResponse, type PaymentOption } from './client.js';
+import { sendWithRetry, readBody } from './transport.js';
+
+const DEFAULT_CONCURRENCY = 4;
+const DEFAULT_TIMEOUT_MS = 5000;
+const MAX_PATHS = 50;
+const BODY_SNIFF_BYTES = 64 * 1024; // enough to spot x402Version in an error page
+
+// API roots that x402 services commonly protect
+const COMMON_PATHS = ['/', '/api', '/api/v1', '/api/v2', '/v1', '/v2'];
+
+export interface ScanOptions {
+  paths?: string[];        // extra paths or URLs on the origin to check
+  concurrency?: number;
+  timeoutMs?: number;      // per request
+}
+
+/** One x402-protected path and what it asks for. */
+export interface ScanHit {
+  url: string;
+  method: string;
+  source: 'well-known' | 'common' | 'given';
+  status: number;
+  x402_version: number | null;
+  options: PaymentOption[];
+  schema: EndpointSchema | null;
+  latency_ms: number;
+  error?: string;          // e.g. the 402 couldn't be decoded
+}
+
+export interface ScanResult {
+  origin: string;
+  well_known: Array<{ url: string; method: string }>;
+  checked: number;
+  protected: ScanHit[];
+  mentions: Array<{ url: string; method: string; status: number }>; // non-402 bodies mentioning x402Version
+  unreachable: Array<{ url: string; method: string; error: string }>;
+  truncated: boolean;      // more than MAX_PATHS candidates
+  elapsed_ms: number;
+}
+
+interface Candidate {
+  url: string;
+  method: string;
+  source: ScanHit['source'];
+}
+
+/**
+ * Scan `origin` for x402-protected paths. Never signs or pays: every request
+ * goes out without a payment header and is sent once.
+ */
+export async function scanOrigin(origin: string, opts: ScanOptions = {}): Promise<ScanResult> {
+  const started = Date.now();
+  const base = new URL(origin).origin;
+  const concurrency = Math.max(1, Math.min(opts.concurrency ?? DEFAULT_CONCURRENCY, 16));
+  const timeoutMs = opts.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+
+  const wellKnown = await discoverEndpoints(base, AbortSignal.timeout(timeoutMs));
+  const seen = new Set<string>();
+  const candidates: Candidate[] = [];
+  const add = (url: string, method: string, source: Candidate['source']) => {
+    const resolved = new URL(url, base);
+    // Only the origin asked for — a .well-known/x402 entry elsewhere isn't followed
+    if (resolved.origin !== base) return;
+    const key = `${method} ${resolved}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    candidates.push({ url: resolved.toString(), method, source });
+  };
+  for (const e of wellKnown) add(e.url, e.method, 'well-known');
+  for (const path of opts.paths ?? []) add(path, 'GET', 'given');
+  for (const path of COMMON_PATHS) add(path, 'GET', 'common');
+
+  const result: ScanResult = {
+    origin: base,
+    well_known: wellKnown,
+    checked: Math.min(candidates.length, MAX_PATHS),
+    protected: [],
+    mentions: [],
+    unreachable: [],
+    truncated: candidates.length > MAX_PATHS,
+    elapsed_ms: 0,
+  };
+
+  const queue = candidates.slice(0, MAX_PATHS);
+  await Promise.all(Array.from({ length: Math.min(concurrency, queue.length) }, async () => {
+    for (let c = queue.shift(); c; c = queue.shift()) await check(c, timeoutMs, result);
+  }));
+
+  const order = candidates.map(c => `${c.method} ${c.url}`);
+  const byOrder = (a: { url: string; method: string }, b: { url: string; method: string }) =>
+    order.indexOf(`${a.method} ${a.url}`) - order.indexOf(`${b.method} ${b.url}`);
+  result.protected.sort(byOrder);
+  result.mentions.sort(byOrder);
+  result.unreachable.sort(byOrder);
+  result.elapsed_ms = Date.now() - started;
+  return result;
+}
+
+async function check(c: Candidate, timeoutMs: number, result: ScanResult) {
+  const started = Date.now();
+  let res: Response;
+  try {
+    res = await sendWithRetry(new Request(c.url, { method: c.method }), { timeoutMs, retries: 0 });
+  } catch (err) {
+    result.unreachable.push({ url: c.url, method: c.method, error: err instanceof Error ? err.message : String(err) });
+    return;
+  }
+  const latency = Date.now() - started;
+
+  if (res.status !== 402) {
+    const { body } = await readBody(res, { timeoutMs, maxBytes: BODY_SNIFF_BYTES }).catch(() => ({ body: Buffer.alloc(0) }));
+    if (/"x402Version"\s*:/.test(body.toString('utf-8'))) result.mentions.push({ url: c.url, method: c.method, status: res.status });
+    return;
+  }
+
+  const { quote, paymentRequired } = await quoteResponse(c.url, res, timeoutMs);
+  const cheapest = [...quote.options].filter(o => o.amount_usd != null).sort((a, b) => a.amount_usd! - b.amount_usd!)[0] ?? null;
+  result.protected.push({
+    url: c.url,
+    method: c.method,
+    source: c.source,
+    status: quote.status,
+    x402_version: quote.x402_version,
+    options: quote.options,
+    schema: paymentRequired ? schemaFrom402(c.url, paymentRequired, cheapest) : null,
+    latency_ms: latency,
+    ...(quote.error ? { error: quote.error } : {}),
+  });
+}
+
+/** Short text summary of a scan, for the CLI and the tool's header line. */
+export function formatScanSummary(scan: ScanResult): string {
+  const found = scan.protected.length;
+  return `${scan.origin}: ${found} x402-protected path(s) out of ${scan.checked} checked` +
+    `${scan.well_known.length > 0 ? `, ${scan.well_known.length} listed in /.well-known/x402` : ', no /.well-known/x402'}` +
+    ` (${(scan.elapsed_ms / 1000).toFixed(1)}s)`;
+}
@@ -0,0 +1,305 @@
+/**
+ * Endpoint Schemas
+ *
+ * What an x402 endpoint expects and returns, from two sources:
+ * - /.well-known/x402 on the origin, which lists its paid endpoints
+ * - the endpoint's own 402: Bazaar metadata in v1 requirements'
+ *   outputSchema ({ input, output }) or the v2 `bazaar` extension
+ *   ({ info: { input, output }, schema })
+ *
+ * signal402_describe reports these; signal402_call with validate=true checks
+ * a request against them before signing anything.
+ */
+
+import type { PaymentRequired, PaymentRequirements } from '@x402/fetch';
+import { quoteRequest, type PaymentOption } from './client.js';
+
+const WELL_KNOWN_TIMEOUT_MS = 5000;
+const MAX_DESCRIBED = 20;   // endpoints quoted per origin
+const CONCURRENCY = 4;
+
+export interface FieldSchema {
+  type: string;
+  required?: boolean;
+  description?: string;
+  enum?: unknown[];
+}
+
+export interface EndpointSchema {
+  url: string;
+  method?: string;        // only when the 402 declares one
+  bodyType?: string;
+  bodyFields?: Record<string, FieldSchema>;
+  queryParams?: Record<string, FieldSchema>;
+  description: string;
+  price_usd: number | null;
+  mimeType?: string;
+  outputSchema?: Record<string, unknown>;
+}
+
+export interface ValidationResult {
+  problems: string[]; // the service would likely reject the request
+  warnings: string[]; // fields the schema doesn't mention
+}
+
+type Json = Record<string, unknown>;
+const isObject = (v: unknown): v is Json => typeof v === 'object' && v !== null && !Array.isArray(v);
+
+// ── Discovery ───────────────────────────────────
+
+/** Try .well-known/x402 discovery on a domain. `signal` bounds the request and its body. */
+export async function discoverEndpoints(
+  origin: string,
+  signal = AbortSignal.timeout(WELL_KNOWN_TIMEOUT_MS)
+): Promise<Array<{ url: string; method: string }>> {
+  try {
+    const res = await fetch(`${origin}/.well-known/x402`, { signal });
+    if (!res.ok) return [];
+    const data: unknown = await res.json();
+    // { endpoints: [...] }, { resources: [...] } (x402 discovery), or an array directly
+    const entries: unknown = Array.isArray(data) ? data : isObject(data) ? data.endpoints ?? data.resources : undefined;
+    if (!Array.isArray(entries)) return [];
+    return entries.flatMap((e: unknown) => {
+      const entry = typeof e === 'string' ? { url: e } : isObject(e) ? e : null;
+      const where = entry && [entry.url, entry.endpoint, entry.resource].find((v): v is string => typeof v === 'string' && v !== '');
+      if (!entry || !where) return [];
+      try {
+        const method = typeof entry.method === 'string' && entry.method ? entry.method.toUpperCase() : 'GET';
+        return [{ url: new URL(where, origin).toString(), method }];
+      } catch {
+        return []; // not a URL — skip this entry, keep the rest
+      }
+    });
+  } catch {
+    return [];
+  }
+}
+
+/** One endpoint as signal402_describe reports it. */
+export interface EndpointDescription {
+  url: string;
+  method: string;
+  status: number | null;
+  payment_required: boolean;
+  schema: EndpointSchema | null;
+  options: PaymentOption[];
+  error?: string;
+}
+
+/**
+ * Describe an endpoint, or every endpoint an origin lists in .well-known/x402
+ * (up to MAX_DESCRIBED). Each is sent unpaid, so nothing is ever signed.
+ */
+export async function describeEndpoints(url: string, method = 'GET'): Promise<{
+  origin: string;
+  well_known: Array<{ url: string; method: string }>;
+  endpoints: EndpointDescription[];
+  truncated: boolean;
+}> {
+  const target = new URL(url);
+  const wellKnown = await discoverEndpoints(target.origin);
+  const isOrigin = target.pathname === '/' && !target.search;
+  const targets = isOrigin ? wellKnown : [{ url, method: method.toUpperCase() }];
+
+  const endpoints: EndpointDescription[] = [];
+  const queue = targets.slice(0, MAX_DESCRIBED);
+  await Promise.all(Array.from({ length: Math.min(CONCURRENCY, queue.length) }, async () => {
+    for (let t = queue.shift(); t; t = queue.shift()) endpoints.push(await describeOne(t.url, t.method));
+  }));
+  const order = targets.map(t => t.url);
+  endpoints.sort((a, b) => order.indexOf(a.url) - order.indexOf(b.url));
+
+  return { origin: target.origin, well_known: wellKnown, endpoints, truncated: targets.length > MAX_DESCRIBED };
+}
+
+async function describeOne(url: string, method: string): Promise<EndpointDescription> {
+  try {
+    const { quote, paymentRequired } = await quoteRequest(url, { method }, { retries: 0 });
+    const cheapest = [...quote.options].filter(o => o.amount_usd != null).sort((a, b) => a.amount_usd! - b.amount_usd!)[0] ?? null;
+    return {
+      url,
+      method,
+      status: quote.status,
+      payment_required: quote.payment_required,
+      schema: paymentRequired ? schemaFrom402(url, paymentRequired, cheapest) : null,
+      options: quote.options,
+      ...(quote.error ? { error: quote.error } : {}),
+    };
+  } catch (err) {
+    return { url, method, status: null, payment_required: false, schema: null, options: [], error: err instanceof Error ? err.message : String(err) };
+  }
+}
+
+// ── From a 402 ──────────────────────────────────
+
+/** Bazaar field maps come as { name: { type, required, ... } } or { name: "description" }. */
+function fieldMap(value: unknown, required: string[] = []): Record<string, FieldSchema> | undefined {
+  if (!isObject(value)) return undefined;
+  const fields: Record<string, FieldSchema> = {};
+  for (const [name, spec] of Object.entries(value)) {
+    if (isObject(spec)) {
+      fields[name] = {
+        type: String(spec.type ?? 'string'),
+        ...(spec.required === true || required.includes(name) ? { required: true } : {}),
+        ...(spec.description ? { description: String(spec.description) } : {}),
+        ...(Array.isArray(spec.enum) ? { enum: spec.enum } : {}),
+      };
+    } else {
+      fields[name] = { type: 'string', ...(required.includes(name) ? { required: true } : {}), ...(spec ? { description: String(spec) } : {}) };
+    }
+  }
+  return Object.keys(fields).length > 0 ? fields : undefined;
+}
+
+/** Fields from a JSON Schema object: { properties, required }. */
+function schemaFields(schema: unknown): Record<string, FieldSchema> | undefined {
+  if (!isObject(schema) || !isObject(schema.properties)) return undefined;
+  return fieldMap(schema.properties, Array.isArray(schema.required) ? schema.required.map(String) : []);
+}
+
+/** Example values (v2 bazaar info) → fields typed by their example. */
+function exampleFields(example: unknown): Record<string, FieldSchema> | undefined {
+  if (!isObject(example)) return undefined;
+  const fields: Record<string, FieldSchema> = {};
+  for (const [name, value] of Object.entries(example)) {
+    fields[name] = { type: Array.isArray(value) ? 'array' : value === null ? 'string' : typeof value };
+  }
+  return Object.keys(fields).length > 0 ? fields : undefined;
+}
+
+/**
+ * The schema a 402 advertises for `requirements` (default: its first option),
+ * or null if it advertises none.
+ */
+export function schemaFrom402(
+  url: string,
+  paymentRequired: PaymentRequired,
+  option: PaymentOption | null,
+  requirements: PaymentRequirements = paymentRequired.accepts[0]
+): EndpointSchema | null {
+  const v1 = requirements as unknown as { outputSchema?: Json; mimeType?: string; description?: string };
+  const bazaar = isObject(paymentRequired.extensions?.bazaar) ? paymentRequired.extensions!.bazaar as Json : null;
+  const info = isObject(bazaar?.info) ? bazaar!.info as Json : null;
+
+  const input = (isObject(v1.outputSchema?.input) ? v1.outputSchema!.input : isObject(info?.input) ? info!.input : null) as Json | null;
+  const output = v1.outputSchema?.output ?? info?.output;
+  if (!input && !isObject(output)) return null;
+
+  // v2: field types and required lists live in the JSON Schema for `info`
+  const inputSchema = isObject(bazaar?.schema) && isObject((bazaar!.schema as Json).properties)
+    ? ((bazaar!.schema as Json).properties as Json).input
+    : undefined;
+  const inputProps = isObject(inputSchema) && isObject(inputSchema.properties) ? inputSchema.properties as Json : {};
+
+  const schema: EndpointSchema = {
+    url,
+    description: v1.description || paymentRequired.resource?.description || '',
+    price_usd: option?.amount_usd ?? null,
+  };
+  if (typeof input?.method === 'string' && input.method) schema.method = input.method.toUpperCase();
+  if (input?.bodyType) schema.bodyType = String(input.bodyType);
+  const body = fieldMap(input?.bodyFields) ?? schemaFields(inputProps.body) ?? exampleFields(input?.body);
+  if (body) {
+    schema.bodyFields = body;
+    schema.bodyType ??= 'json';
+  }
+  const query = fieldMap(input?.queryParams && !info ? input.queryParams : undefined)
+    ?? schemaFields(inputProps.queryParams) ?? exampleFields(input?.queryParams);
+  if (query) schema.queryParams = query;
+  const mime = v1.mimeType || paymentRequired.resource?.mimeType;
+  if (mime) schema.mimeType = mime;
+  if (isObject(output)) schema.outputSchema = output;
+  return schema;
+}
+
+// ── Validation ──────────────────────────────────
+
+function typeProblem(name: string, value: unknown, field: FieldSchema): string | null {
+  if (field.enum && !field.enum.some(v => v === value || String(v) === String(value))) {
+    return `${name} must be one of ${field.enum.map(v => JSON.stringify(v)).join(', ')}`;
+  }
+  const type = field.type.toLowerCase();
+  const ok =
+    type === 'string' ? typeof value === 'string' :
+    type === 'number' ? typeof value === 'number' && Number.isFinite(value) :
+    type === 'integer' ? Number.isInteger(value) :
+    type === 'boolean' ? typeof value === 'boolean' :
+    type === 'array' ? Array.isArray(value) :
+    type === 'object' ? isObject(value) :
+    true; // unknown types aren't checked
+  return ok ? null : `${name} should be ${type === 'integer' || type === 'array' || type === 'object' ? 'an' : 'a'} ${type}, got ${Array.isArray(value) ? 'array' : typeof value}`;
+}
+
+/** Query values are strings; check they parse as the declared type. */
+function queryValue(raw: string, field: FieldSchema): unknown {
+  const type = field.type.toLowerCase();
+  if (type === 'number' || type === 'integer') {
+    const n = Number(raw);
+    return raw.trim() === '' || Number.isNaN(n) ? raw : n;
+  }
+  if (type === 'boolean') return raw === 'true' ? true : raw === 'false' ? false : raw;
+  return raw;
+}
+
+function checkFields(
+  where: string,
+  values: Record<string, unknown>,
+  fields: Record<string, FieldSchema>,
+  result: ValidationResult
+) {
+  for (const [name, field] of Object.entries(fields)) {
+    if (!(name in values) || values[name] === undefined) {
+      if (field.required) result.problems.push(`Missing required ${where} ${name}${field.description ? ` (${field.description})` : ''}`);
+      continue;
+    }
+    const problem = typeProblem(name, values[name], field);
+    if (problem) result.problems.push(`${where} ${problem}`);
+  }
+  for (const name of Object.keys(values)) {
+    if (!(name in fields)) result.warnings.push(`${where} ${name} is not in the schema`);
+  }
+}
+
+/** Check a request against an endpoint schema. Unknown fields are warnings, not problems. */
+export function validateRequest(schema: EndpointSchema, request: { url: string; method: string; body?: string }): ValidationResult {
+  const result: ValidationResult = { problems: [], warnings: [] };
+
+  // Only a declared method is checked; leaving it out says nothing about which one
+  if (schema.method && request.method.toUpperCase() !== schema.method) {
+    result.problems.push(`Method should be ${schema.method}, not ${request.method.toUpperCase()}`);
+  }
+
+  if (schema.queryParams) {
+    const params = new URL(request.url).searchParams;
+    const values: Record<string, unknown> = {};
+    for (const [name, raw] of params) values[name] = schema.queryParams[name] ? queryValue(raw, schema.queryParams[name]) : raw;
+    checkFields('query parameter', values, schema.queryParams, result);
+  }
+
+  if (schema.bodyFields) {
+    if (!request.body) {
+      const required = Object.entries(schema.bodyFields).filter(([, f]) => f.required).map(([n]) => n);
+      if (required.length > 0) result.problems.push(`Body is missing; required fields: ${required.join(', ')}`);
+    } else if (schema.bodyType === 'json' || !schema.bodyType) {
+      let parsed: unknown;
+      try {
+        parsed = JSON.parse(request.body);
+      } catch {
+        result.problems.push('Body is not valid JSON');
+        return result;
+      }
+      if (!isObject(parsed)) result.problems.push('Body should be a JSON object');
+      else checkFields('body field', parsed, schema.bodyFields, result);
+    }
+  }
+
+  return result;
+}
+
+/** Thrown by x402Fetch with validate=true when the request doesn't match the advertised schema. Nothing was paid. */
+export class RequestValidationError extends Error {
+  constructor(public readonly schema: EndpointSchema, public readonly validation: ValidationResult) {
+    super(`Request doesn't match the service's schema: ${validation.problems.join('; ')}`);
+    this.name = 'RequestValidationError';
+  }
+}
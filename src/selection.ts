@@ -0,0 +1,175 @@
+/**
+ * Payment Option Selection
+ *
+ * A 402 can accept several networks or assets. Instead of letting the SDK take
+ * the first one it supports, we rank them by config.json → selection:
+ *
+ *   { "selection": { "strategy": "cheapest", "prefer": ["base", "arbitrum"], "only_funded": true } }
+ *
+ * - preferred (default): network order from `prefer` (home network if unset)
+ * - cheapest: lowest USD price, preference order breaks ties
+ * - only_funded: drop options the wallet can't cover on that network
+ *
+ * An explicit network (signal402_call's `network`) pins the choice. Every
+ * option that wasn't picked is reported with the reason.
+ */
+
+import type { PaymentRequirements } from '@x402/fetch';
+import { loadConfig } from './config.js';
+import { getNetwork, homeNetwork, checkNetworkMode } from './networks.js';
+import { getTokenBalance } from './balances.js';
+import type { PaymentOption } from './client.js';
+
+export interface SelectionCandidate {
+  requirements: PaymentRequirements;
+  option: PaymentOption;
+}
+
+export interface RejectedOption extends PaymentOption {
+  reason: string;
+}
+
+export interface PaymentSelection {
+  strategy: 'preferred' | 'cheapest';
+  requested_network?: string;
+  only_funded: boolean;
+  chosen: PaymentOption | null;
+  rejected: RejectedOption[];
+}
+
+/** Display name for a v1 or CAIP-2 network id. */
+function networkName(network: string): string {
+  return getNetwork(network)?.name ?? network;
+}
+
+/** Compare networks across v1 names and CAIP-2 ids ("base" === "eip155:8453"). */
+function sameNetwork(a: string, b: string): boolean {
+  return (getNetwork(a)?.caip2 ?? a.toLowerCase()) === (getNetwork(b)?.caip2 ?? b.toLowerCase());
+}
+
+/** Why an option can't be used at all, before ranking. */
+function ineligibleReason(option: PaymentOption, requestedNetwork?: string, anyMode = false): string | null {
+  if (option.scheme !== 'exact') return `scheme "${option.scheme}" not supported`;
+  if (!option.network.startsWith('eip155:') && !getNetwork(option.network)) {
+    return `network ${option.network} not supported (EVM only)`;
+  }
+  if (requestedNetwork && !sameNetwork(option.network, requestedNetwork)) {
+    return `not the requested network (${requestedNetwork})`;
+  }
+  const modeReason = anyMode ? null : checkNetworkMode(option.network);
+  if (modeReason) return modeReason;
+  if (option.amount_usd == null) return option.pricing_error ?? `can't price asset ${option.asset}`;
+  return null;
+}
+
+/** "$0.0100" for priced options, the raw atomic amount otherwise. */
+function formatPrice(option: PaymentOption): string {
+  return option.amount_usd != null ? `$${option.amount_usd.toFixed(4)}` : `${option.amount} of ${option.asset}`;
+}
+
+/** Null if the wallet holds enough of the option's asset, else why not. */
+async function fundingReason(option: PaymentOption, payer: string): Promise<string | null> {
+  const net = getNetwork(option.network);
+  if (!net) return `can't check balance on ${option.network}`;
+  try {
+    const balance = await getTokenBalance(net, option.asset, payer);
+    if (balance >= BigInt(option.amount)) return null;
+    return `insufficient balance on ${net.name} (have ${balance}, need ${option.amount} atomic units)`;
+  } catch (err) {
+    const message = err instanceof Error ? err.message.split('\n')[0] : String(err);
+    return `balance check failed on ${net.name}: ${message}`;
+  }
+}
+
+// ── Selection ───────────────────────────────────
+
+/**
+ * Rank the options a 402 offered and pick one. `requirements` is null when
+ * nothing is acceptable; `selection.rejected` then says why for each option.
+ * `anyMode` lets mainnet options through in testnet mode.
+ */
+export async function selectPayment(
+  candidates: SelectionCandidate[],
+  opts: { payer: string; network?: string; anyMode?: boolean }
+): Promise<{ selection: PaymentSelection; requirements: PaymentRequirements | null }> {
+  const config = loadConfig().selection ?? {};
+  const strategy = config.strategy ?? 'preferred';
+  const onlyFunded = config.only_funded ?? false;
+  const prefer = config.prefer ?? [homeNetwork().key];
+
+  const rank = (network: string) => {
+    const i = prefer.findIndex(p => sameNetwork(p, network));
+    return i === -1 ? prefer.length : i;
+  };
+
+  const rejected: RejectedOption[] = [];
+  let eligible: SelectionCandidate[] = [];
+  for (const c of candidates) {
+    const reason = ineligibleReason(c.option, opts.network, opts.anyMode);
+    if (reason) rejected.push({ ...c.option, reason });
+    else eligible.push(c);
+  }
+
+  if (onlyFunded && eligible.length > 0) {
+    const reasons = await Promise.all(eligible.map(c => fundingReason(c.option, opts.payer)));
+    eligible.forEach((c, i) => {
+      if (reasons[i]) rejected.push({ ...c.option, reason: reasons[i]! });
+    });
+    eligible = eligible.filter((_, i) => !reasons[i]);
+  }
+
+  // Only priced options are eligible, so amount_usd is set from here on.
+  // Array.prototype.sort is stable, so server order breaks remaining ties.
+  const usd = (c: SelectionCandidate) => c.option.amount_usd!;
+  eligible.sort((a, b) => {
+    if (strategy === 'cheapest' && usd(a) !== usd(b)) {
+      return usd(a) - usd(b);
+    }
+    return rank(a.option.network) - rank(b.option.network);
+  });
+
+  const [best, ...rest] = eligible;
+  for (const c of rest) {
+    let reason: string;
+    if (usd(c) > usd(best)) {
+      reason = `costs ${formatPrice(c.option)} vs ${formatPrice(best.option)}`;
+    } else if (rank(c.option.network) > rank(best.option.network)) {
+      reason = `lower preference than ${networkName(best.option.network)}`;
+    } else {
+      reason = 'listed later by the service';
+    }
+    rejected.push({ ...c.option, reason });
+  }
+
+  return {
+    selection: {
+      strategy,
+      ...(opts.network ? { requested_network: opts.network } : {}),
+      only_funded: onlyFunded,
+      chosen: best?.option ?? null,
+      rejected,
+    },
+    requirements: best?.requirements ?? null,
+  };
+}
+
+/** Why no option could be paid, as one abort reason. */
+export function noOptionReason(selection: PaymentSelection): string {
+  const reasons = selection.rejected.map(r => `${networkName(r.network)}: ${r.reason}`);
+  return `No acceptable payment option (${reasons.join('; ')})`;
+}
+
+/** Human-readable summary for tool results. */
+export function formatSelection(selection: PaymentSelection): string[] {
+  if (!selection.chosen) return [noOptionReason(selection)];
+  const chosen = selection.chosen;
+  const lines = [
+    `Selected ${formatPrice(chosen)} (${chosen.amount_formatted}) on ${networkName(chosen.network)} (${chosen.network}) — ` +
+      (selection.requested_network ? `requested network` : `strategy: ${selection.strategy}`) +
+      (selection.only_funded ? ', funded only' : ''),
+  ];
+  for (const r of selection.rejected) {
+    lines.push(`  rejected ${networkName(r.network)} ${formatPrice(r)}: ${r.reason}`);
+  }
+  return lines;
+}
@@ -0,0 +1,179 @@
+/**
+ * Installed Service Tools
+ *
+ * Registers one MCP tool per installed endpoint (see services.ts), with
+ * parameters built from the endpoint's schema instead of a free-form URL and
+ * body. Calls go through the same paid path as signal402_call, validated
+ * against the schema before paying. The tool list follows services.json:
+ * tools are added, updated and removed as services are installed and
+ * uninstalled, and the SDK sends tools/list_changed for each change.
+ */
+
+import { z } from 'zod';
+import type { McpServer, RegisteredTool } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import type { PaymentOptions } from './client.js';
+import type { FieldSchema } from './schema.js';
+import { loadServices, watchServices, type InstalledService, type InstalledEndpoint } from './services.js';
+
+const DEFAULT_MAX_COST = 0.10; // when the price wasn't known at install
+
+/** Sends one request through the paid call path and renders the response. */
+export type PaidCall = (url: string, init: RequestInit, payment: PaymentOptions) => Promise<CallToolResult>;
+
+// ── Parameters ──────────────────────────────────
+
+function fieldToZod(field: FieldSchema): z.ZodTypeAny {
+  const type = field.type.toLowerCase();
+  let schema: z.ZodTypeAny =
+    field.enum && field.enum.length > 0 && field.enum.every(v => typeof v === 'string')
+      ? z.enum(field.enum as [string, ...string[]])
+      : type === 'number' ? z.number()
+      : type === 'integer' ? z.number().int()
+      : type === 'boolean' ? z.boolean()
+      : type === 'array' ? z.array(z.unknown())
+      : type === 'object' ? z.record(z.unknown())
+      : z.string();
+  if (field.description) schema = schema.describe(field.description);
+  return field.required ? schema : schema.optional();
+}
+
+/** The service's own max_cost if it set one, else the endpoint's price at install. */
+function defaultMaxCost(service: InstalledService, endpoint: InstalledEndpoint): number {
+  return service.max_cost ?? endpoint.price_usd ?? DEFAULT_MAX_COST;
+}
+
+function maxCostParam(service: InstalledService, endpoint: InstalledEndpoint) {
+  const cap = defaultMaxCost(service, endpoint);
+  const why = service.max_cost != null ? 'set for this service' : 'the price at install';
+  return z.number().positive().default(cap).describe(`Maximum USD to pay for this call (default $${cap}, ${why})`);
+}
+
+const allowRepayParam = z.boolean().default(false)
+  .describe('Sign a new payment even if this request was already paid for and the service refused that payment');
+
+/**
+ * Tool parameters: the endpoint's query and body fields, flattened, plus
+ * max_cost and allow_repay. Endpoints that advertise no fields take a raw
+ * query and body.
+ */
+function paramsFor(service: InstalledService, endpoint: InstalledEndpoint): z.ZodRawShape {
+  const fields = { ...endpoint.schema?.queryParams, ...endpoint.schema?.bodyFields };
+  const shape: z.ZodRawShape = {};
+  for (const [name, field] of Object.entries(fields)) shape[name] = fieldToZod(field);
+
+  if (Object.keys(fields).length === 0) {
+    shape.query = z.record(z.string()).optional().describe('Query parameters');
+    if (endpoint.method !== 'GET' && endpoint.method !== 'DELETE') {
+      shape.body = z.string().optional().describe('Request body (JSON string)');
+    }
+  }
+  // An endpoint field named max_cost keeps its name; the cap then uses the default
+  if (!('max_cost' in shape)) shape.max_cost = maxCostParam(service, endpoint);
+  if (!('allow_repay' in shape)) shape.allow_repay = allowRepayParam;
+  return shape;
+}
+
+/** Split tool arguments back into the URL and request the endpoint expects. */
+function buildRequest(
+  service: InstalledService, endpoint: InstalledEndpoint, args: Record<string, unknown>
+): { url: string; init: RequestInit; maxCost: number; allowRepay: boolean } {
+  const schema = endpoint.schema;
+  const url = new URL(endpoint.url);
+  const init: RequestInit = { method: endpoint.method };
+  const fieldNames = new Set([...Object.keys(schema?.queryParams ?? {}), ...Object.keys(schema?.bodyFields ?? {})]);
+  const maxCost = fieldNames.has('max_cost') ? defaultMaxCost(service, endpoint) : args.max_cost as number;
+  const allowRepay = !fieldNames.has('allow_repay') && args.allow_repay === true;
+
+  const toQuery = (name: string, value: unknown) => {
+    if (value === undefined) return;
+    url.searchParams.set(name, typeof value === 'object' ? JSON.stringify(value) : String(value));
+  };
+
+  if (fieldNames.size === 0) {
+    for (const [name, value] of Object.entries((args.query as Record<string, string>) ?? {})) toQuery(name, value);
+    if (typeof args.body === 'string' && args.body) {
+      init.body = args.body;
+      init.headers = { 'Content-Type': 'application/json' };
+    }
+    return { url: url.toString(), init, maxCost, allowRepay };
+  }
+
+  // GET and DELETE carry everything in the query; otherwise only declared query parameters do
+  const queryOnly = endpoint.method === 'GET' || endpoint.method === 'DELETE';
+  const body: Record<string, unknown> = {};
+  for (const name of fieldNames) {
+    if (queryOnly || schema?.queryParams?.[name]) toQuery(name, args[name]);
+    else if (args[name] !== undefined) body[name] = args[name];
+  }
+  if (!queryOnly && (Object.keys(body).length > 0 || schema?.bodyFields)) {
+    init.body = JSON.stringify(body);
+    init.headers = { 'Content-Type': 'application/json' };
+  }
+  return { url: url.toString(), init, maxCost, allowRepay };
+}
+
+function describe(service: InstalledService, endpoint: InstalledEndpoint): string {
+  const price = endpoint.price_usd != null ? `$${endpoint.price_usd}` : 'an unknown amount';
+  return [
+    endpoint.description || `${service.name}: ${new URL(endpoint.url).pathname}`,
+    `— ${endpoint.method} ${endpoint.url}.`,
+    `Costs ${price} per call (price at install), paid from your wallet${service.network ? ` on ${service.network}` : ''}.`,
+    'The request is checked against the service\'s schema before paying.',
+    ...(service.notes ? [`Notes: ${service.notes}`] : []),
+  ].join(' ');
+}
+
+// ── Registration ────────────────────────────────
+
+/**
+ * Register a tool for every installed endpoint, and keep the set in step
+ * with services.json. Returns `sync`, for callers that change the registry
+ * in this process and don't want to wait for the file watcher.
+ */
+export function registerServiceTools(server: McpServer, paidCall: PaidCall): () => void {
+  const registered = new Map<string, { tool: RegisteredTool; signature: string }>();
+
+  const sync = () => {
+    const wanted = new Map<string, { service: InstalledService; endpoint: InstalledEndpoint }>();
+    for (const service of loadServices()) {
+      for (const endpoint of service.endpoints) wanted.set(endpoint.tool, { service, endpoint });
+    }
+
+    for (const [name, entry] of registered) {
+      if (!wanted.has(name)) {
+        entry.tool.remove();
+        registered.delete(name);
+      }
+    }
+
+    for (const [name, { service, endpoint }] of wanted) {
+      // Only what the tool is built from — a live check's last_probe doesn't count
+      const signature = JSON.stringify([endpoint, service.max_cost, service.network, service.notes]);
+      const existing = registered.get(name);
+      if (existing?.signature === signature) continue;
+
+      const description = describe(service, endpoint);
+      const params = paramsFor(service, endpoint);
+      const callback = async (args: Record<string, unknown>) => {
+        const { url, init, maxCost, allowRepay } = buildRequest(service, endpoint, args);
+        return paidCall(url, init, { maxCostUsd: maxCost, tool: name, network: service.network, allowRepay, validate: endpoint.schema !== null });
+      };
+
+      if (existing) {
+        existing.tool.update({ description, paramsSchema: params, callback });
+        existing.signature = signature;
+      } else {
+        try {
+          registered.set(name, { tool: server.tool(name, description, params, callback), signature });
+        } catch {
+          // Name taken by another tool — skip it rather than fail the server
+        }
+      }
+    }
+  };
+
+  sync();
+  watchServices(sync);
+  return sync;
+}
@@ -0,0 +1,250 @@
+/**
+ * Installed Services
+ *
+ * A service the user installs gets its own MCP tools, one per paid endpoint,
+ * named x402__<service>__<endpoint> (e.g. x402__firecrawl__scrape). Installing
+ * describes the service's endpoints unpaid (see schema.ts) and keeps what
+ * each one accepts and costs in ~/.signal402/services.json, so the tools come
+ * back after a restart without probing anything. The MCP server watches the
+ * file and updates its tool list when it changes.
+ *
+ * The registry doubles as the team's list of vetted services: each entry can
+ * carry a default max_cost, a preferred network and notes, and remembers the
+ * result of the last live check (`signal402 services`).
+ */
+
+import { readFileSync, writeFileSync, renameSync, mkdirSync, existsSync, watch } from 'fs';
+import { homedir } from 'os';
+import { join } from 'path';
+import { describeEndpoints, type EndpointSchema } from './schema.js';
+import { quoteRequest } from './client.js';
+import { loadSnapshot, catalogEntries, searchCatalog } from './catalog.js';
+import { getNetwork } from './networks.js';
+
+const SIGNAL402_DIR = join(homedir(), '.signal402');
+const SERVICES_FILE = join(SIGNAL402_DIR, 'services.json');
+
+const TOOL_PREFIX = 'x402__';
+const MAX_TOOL_NAME = 64; // MCP clients reject longer tool names
+
+export interface InstalledEndpoint {
+  tool: string;                // MCP tool name
+  url: string;
+  method: string;
+  description: string;
+  price_usd: number | null;    // cheapest accepted option when installed
+  schema: EndpointSchema | null;
+}
+
+export interface InstalledService {
+  name: string;                // slug used in tool names
+  origin: string;
+  installed_at: string;
+  endpoints: InstalledEndpoint[];
+  max_cost?: number;           // default cap per call, instead of the price at install
+  network?: string;            // only pay on this network
+  notes?: string;
+  catalog_name?: string;       // when installed by catalog name
+  last_probe?: ServiceProbe;
+}
+
+/** Result of checking a service's endpoints live, unpaid. */
+export interface ServiceProbe {
+  checked_at: string;
+  ok: boolean;                 // every endpoint answered with a 402
+  endpoints: Array<{ tool: string; status: number | null; price_usd: number | null; latency_ms: number; error?: string }>;
+}
+
+export interface InstallOptions {
+  name?: string;
+  method?: string;
+  max_cost?: number;
+  network?: string;
+  notes?: string;
+}
+
+// ── Registry ────────────────────────────────────
+
+export function loadServices(): InstalledService[] {
+  if (!existsSync(SERVICES_FILE)) return [];
+  try {
+    const data = JSON.parse(readFileSync(SERVICES_FILE, 'utf-8'));
+    return Array.isArray(data) ? data : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveServices(services: InstalledService[]) {
+  mkdirSync(SIGNAL402_DIR, { recursive: true, mode: 0o700 });
+  const tmp = `${SERVICES_FILE}.tmp`;
+  writeFileSync(tmp, JSON.stringify(services, null, 2), { mode: 0o600 });
+  renameSync(tmp, SERVICES_FILE);
+}
+
+// ── Naming ──────────────────────────────────────
+
+function slug(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+}
+
+/** "api.firecrawl.dev" → "firecrawl" */
+export function serviceSlug(origin: string): string {
+  const labels = new URL(origin).hostname.split('.').filter(l => !['www', 'api'].includes(l));
+  return slug(labels[0] ?? 'service') || 'service';
+}
+
+/** "/v1/scrape" → "scrape", "/api/search/news" → "search_news" */
+function endpointSlug(url: string): string {
+  const segments = new URL(url).pathname.split('/').filter(s => s && !/^(api|v\d+)$/i.test(s));
+  return slug(segments.join('_')) || 'root';
+}
+
+function toolName(service: string, endpoint: string): string {
+  return `${TOOL_PREFIX}${service}__${endpoint}`.slice(0, MAX_TOOL_NAME);
+}
+
+// ── Install ─────────────────────────────────────
+
+/** A URL as given, or the URL of the catalog service with this name. */
+function resolveTarget(target: string): { url: string; catalogName?: string } {
+  if (/^https?:\/\//i.test(target)) return { url: target };
+
+  const snapshot = loadSnapshot();
+  if (!snapshot) {
+    throw new Error(`"${target}" is not a URL, and there is no catalog snapshot to look it up in. Run \`signal402 catalog sync\` or pass a URL.`);
+  }
+  const entries = catalogEntries(snapshot.payload).filter(e => e.url);
+  const exact = entries.find(e => e.name.toLowerCase() === target.toLowerCase());
+  if (exact) return { url: exact.url, catalogName: exact.name };
+
+  const close = searchCatalog(entries, { query: target, limit: 5 }).map(e => e.name);
+  throw new Error(`No catalog service named "${target}".${close.length > 0 ? ` Did you mean: ${close.join(', ')}?` : ''}`);
+}
+
+/**
+ * Describe `target` (an origin with .well-known/x402, one endpoint URL, or a
+ * catalog service name) and install its paid endpoints under `name`
+ * (default: from the hostname). Reinstalling replaces the service's
+ * endpoints with what it offers now and keeps settings that aren't given.
+ */
+export async function installService(target: string, opts: InstallOptions = {}): Promise<InstalledService> {
+  if (opts.max_cost != null && !(opts.max_cost > 0)) throw new Error('max_cost must be a positive number of USD');
+  if (opts.network && !getNetwork(opts.network)) throw new Error(`Unknown network "${opts.network}"`);
+
+  const { url, catalogName } = resolveTarget(target);
+  const described = await describeEndpoints(url, opts.method);
+  const paid = described.endpoints.filter(e => e.payment_required);
+  if (paid.length === 0) {
+    const found = described.endpoints.length === 0
+      ? `${described.origin} lists no endpoints in /.well-known/x402 — install one endpoint URL instead`
+      : `none of the ${described.endpoints.length} endpoint(s) at ${described.origin} answered with a 402`;
+    throw new Error(`Nothing to install: ${found}.`);
+  }
+
+  const name = slug(opts.name ?? catalogName ?? '') || serviceSlug(described.origin);
+
+  const used = new Set<string>();
+  const endpoints = paid.map((e, i) => {
+    let tool = toolName(name, endpointSlug(e.url));
+    if (used.has(tool)) tool = toolName(name, `${endpointSlug(e.url)}_${e.method.toLowerCase()}`);
+    if (used.has(tool)) tool = toolName(name, `${endpointSlug(e.url)}_${i + 1}`);
+    used.add(tool);
+    const prices = e.options.map(o => o.amount_usd).filter((n): n is number => n != null);
+    return {
+      tool,
+      url: e.url,
+      method: e.method,
+      description: e.schema?.description || e.options[0]?.description || '',
+      price_usd: prices.length > 0 ? Math.min(...prices) : null,
+      schema: e.schema,
+    };
+  });
+
+  const services = loadServices();
+  const previous = services.find(s => s.name === name);
+  const service: InstalledService = {
+    name,
+    origin: described.origin,
+    installed_at: new Date().toISOString(),
+    endpoints,
+  };
+  const maxCost = opts.max_cost ?? previous?.max_cost;
+  const network = opts.network ?? previous?.network;
+  const notes = opts.notes ?? previous?.notes;
+  const catalog = catalogName ?? previous?.catalog_name;
+  if (maxCost != null) service.max_cost = maxCost;
+  if (network) service.network = network;
+  if (notes) service.notes = notes;
+  if (catalog) service.catalog_name = catalog;
+
+  saveServices([...services.filter(s => s.name !== name), service]);
+  return service;
+}
+
+/** Remove an installed service. Returns it, or null if none had that name. */
+export function uninstallService(name: string): InstalledService | null {
+  const services = loadServices();
+  const found = services.find(s => s.name === slug(name));
+  if (!found) return null;
+  saveServices(services.filter(s => s !== found));
+  return found;
+}
+
+// ── Live check ──────────────────────────────────
+
+/**
+ * Send each endpoint of `service` unpaid and record what came back: status,
+ * latency and the cheapest price it asks now. Nothing is signed.
+ */
+export async function probeService(service: InstalledService): Promise<ServiceProbe> {
+  const endpoints = await Promise.all(service.endpoints.map(async e => {
+    const started = Date.now();
+    try {
+      const { quote } = await quoteRequest(e.url, { method: e.method }, { retries: 0 });
+      const prices = quote.options.map(o => o.amount_usd).filter((n): n is number => n != null);
+      return {
+        tool: e.tool,
+        status: quote.status,
+        price_usd: prices.length > 0 ? Math.min(...prices) : null,
+        latency_ms: Date.now() - started,
+        ...(quote.error ? { error: quote.error } : {}),
+      };
+    } catch (err) {
+      return { tool: e.tool, status: null, price_usd: null, latency_ms: Date.now() - started, error: err instanceof Error ? err.message : String(err) };
+    }
+  }));
+  const probe: ServiceProbe = {
+    checked_at: new Date().toISOString(),
+    ok: endpoints.every(e => e.status === 402),
+    endpoints,
+  };
+
+  // Re-read so a concurrent install or uninstall isn't undone
+  const services = loadServices();
+  const current = services.find(s => s.name === service.name);
+  if (current) {
+    current.last_probe = probe;
+    saveServices(services);
+  }
+  return probe;
+}
+
+/**
+ * Call `onChange` when services.json changes, including from another
+ * process (the CLI). Watches the directory, since saves replace the file.
+ */
+export function watchServices(onChange: () => void): void {
+  mkdirSync(SIGNAL402_DIR, { recursive: true, mode: 0o700 });
+  let timer: NodeJS.Timeout | undefined;
+  try {
+    const watcher = watch(SIGNAL402_DIR, (_event, file) => {
+      if (file !== 'services.json') return;
+      clearTimeout(timer);
+      timer = setTimeout(onChange, 250);
+    });
+    watcher.unref();
+  } catch {
+    // No file watching here — changes made by this process still apply
+  }
+}
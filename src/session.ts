@@ -14,6 +14,7 @@ import { hashMessage, type Hex } from 'viem';
 import { readFileSync, writeFileSync, existsSync } from 'fs';
 import { join } from 'path';
 import { homedir } from 'os';
+import { homeNetwork } from './networks.js';
 
 const SIGNAL402_DIR = join(homedir(), '.signal402');
 const SESSION_FILE = join(SIGNAL402_DIR, 'session.json');
@@ -26,6 +27,7 @@ interface SessionData {
   sessionPublicKey: string;  // hex-encoded uncompressed public key
   expiresAt: number;         // unix ms
   createdAt: string;
+  chainId?: number;          // SIWE chain id; absent in sessions from before testnet mode (Base)
 }
 
 // ── Helpers ─────────────────────────────────────
@@ -71,7 +73,7 @@ function constructSiweMessage(
   const domain = 'clara-proxy.bflynn-me.workers.dev';
   const uri = `https://${domain}`;
   const issuedAt = new Date().toISOString();
-  const chainId = 8453;
+  const chainId = homeNetwork().chain.id; // 8453, or 84532 in testnet mode
 
   // Statement embeds the session public key — proxy verifies this is present
   const statement = `Delegate signing authority to session key: ${sessionPubKey}`;
@@ -173,6 +175,7 @@ export async function establishSession(
     sessionPublicKey: sessionPubKey,
     expiresAt,
     createdAt: new Date().toISOString(),
+    chainId: homeNetwork().chain.id,
   };
 
   writeFileSync(SESSION_FILE, JSON.stringify(session, null, 2), { mode: 0o600 });
@@ -250,9 +253,11 @@ export async function getSession(
   if (existsSync(SESSION_FILE)) {
     const session: SessionData = JSON.parse(readFileSync(SESSION_FILE, 'utf-8'));
 
-    // Check if session is still valid (with 5-minute buffer)
+    // Check if session is still valid (with 5-minute buffer) and was
+    // delegated on the current network (mainnet vs testnet mode)
     const bufferMs = 5 * 60 * 1000;
-    if (session.expiresAt > Date.now() + bufferMs) {
+    const sameChain = (session.chainId ?? 8453) === homeNetwork().chain.id;
+    if (sameChain && session.expiresAt > Date.now() + bufferMs) {
       return session;
     }
     // Session expired or about to expire — re-establish
@@ -0,0 +1,168 @@
+/**
+ * Request Transport: Timeouts and Retries
+ *
+ * Every request x402Fetch sends goes through here. Each attempt is timed out
+ * until the response headers arrive. Bodies get a deadline of their own when
+ * they're read (readBody), so a stalled body can't hang a call and long event
+ * streams are cut off by their own limits. Network errors, timeouts and 429/502/503/504
+ * answers are retried with backoff, but only before payment. A request that
+ * carries a payment header is resent only when no response came back at all,
+ * and always with the same header. A signed authorization settles at most
+ * once, so resending it can't pay twice.
+ *
+ * Defaults come from config.json → requests, overridable per request.
+ */
+
+import { loadConfig } from './config.js';
+
+const DEFAULT_TIMEOUT_SECONDS = 30;
+const DEFAULT_RETRIES = 2;
+const BASE_BACKOFF_MS = 500;
+const MAX_BACKOFF_MS = 10_000; // a longer Retry-After is returned to the caller instead of waited out
+
+const RETRY_STATUSES = new Set([429, 502, 503, 504]);
+
+export interface TransportSettings {
+  timeoutMs: number; // per attempt, until response headers arrive
+  retries: number;   // extra attempts after the first
+}
+
+export class RequestTimeoutError extends Error {
+  constructor(url: string, timeoutMs: number) {
+    super(`No response from ${new URL(url).host} within ${timeoutMs / 1000}s`);
+    this.name = 'RequestTimeoutError';
+  }
+}
+
+/** The response started but its body didn't finish in time. Not transient: an answer came back. */
+export class BodyTimeoutError extends Error {
+  constructor(url: string, timeoutMs: number) {
+    super(`Response body from ${url ? new URL(url).host : 'the service'} didn't finish within ${timeoutMs / 1000}s`);
+    this.name = 'BodyTimeoutError';
+  }
+}
+
+/** Config defaults with per-request overrides applied. */
+export function transportSettings(overrides?: Partial<TransportSettings>): TransportSettings {
+  const config = loadConfig().requests;
+  return {
+    timeoutMs: overrides?.timeoutMs ?? (config?.timeout_seconds ?? DEFAULT_TIMEOUT_SECONDS) * 1000,
+    retries: Math.max(0, Math.floor(overrides?.retries ?? config?.retries ?? DEFAULT_RETRIES)),
+  };
+}
+
+export function hasPaymentHeader(request: Request): boolean {
+  return request.headers.has('PAYMENT-SIGNATURE') || request.headers.has('X-PAYMENT');
+}
+
+/** No response at all: connection refused or reset, DNS failure, or our timeout. A caller's abort is final. */
+export function isTransient(err: unknown): boolean {
+  return err instanceof RequestTimeoutError || (err instanceof TypeError && err.message.startsWith('fetch failed'));
+}
+
+/** Exponential backoff with jitter, or the service's Retry-After (seconds) if it sent one. */
+function backoffMs(attempt: number, res?: Response): number {
+  const retryAfter = Number(res?.headers.get('retry-after'));
+  if (Number.isFinite(retryAfter) && retryAfter > 0) return retryAfter * 1000;
+  const base = Math.min(BASE_BACKOFF_MS * 2 ** attempt, MAX_BACKOFF_MS);
+  return base / 2 + Math.random() * base / 2;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+async function attempt(request: Request, timeoutMs: number): Promise<Response> {
+  const timer = new AbortController();
+  const handle = setTimeout(() => timer.abort(), timeoutMs);
+  // Follow the caller's abort by hand: AbortSignal.any needs Node 18.17
+  const follow = () => timer.abort();
+  if (request.signal.aborted) follow();
+  else request.signal.addEventListener('abort', follow, { once: true });
+  try {
+    return await globalThis.fetch(request, { signal: timer.signal });
+  } catch (err) {
+    if (timer.signal.aborted && !request.signal.aborted) throw new RequestTimeoutError(request.url, timeoutMs);
+    throw err;
+  } finally {
+    clearTimeout(handle);
+    request.signal.removeEventListener('abort', follow);
+  }
+}
+
+/** Send `request`, retrying transient failures as described above. */
+export async function sendWithRetry(request: Request, settings: TransportSettings): Promise<Response> {
+  const paid = hasPaymentHeader(request);
+
+  for (let n = 0; ; n++) {
+    const last = n >= settings.retries;
+    let res: Response;
+    try {
+      res = await attempt(request.clone(), settings.timeoutMs);
+    } catch (err) {
+      if (last || !isTransient(err)) {
+        if (n > 0 && err instanceof Error) err.message += ` (after ${n + 1} attempts)`;
+        throw err;
+      }
+      await sleep(backoffMs(n));
+      continue;
+    }
+
+    // Once paid, any answer is final: the service may have settled already
+    if (paid || last || !RETRY_STATUSES.has(res.status)) return res;
+    const wait = backoffMs(n, res);
+    if (wait > MAX_BACKOFF_MS) return res;
+    await res.body?.cancel().catch(() => {});
+    await sleep(wait);
+  }
+}
+
+// ── Bodies ──────────────────────────────────────
+
+export interface BodyLimits {
+  timeoutMs: number;  // from when reading starts
+  maxBytes?: number;  // stop once this many bytes have arrived
+}
+
+export interface BodyRead {
+  body: Buffer;
+  stopped: 'complete' | 'timeout' | 'size';
+}
+
+/**
+ * Read a body until it ends, `maxBytes` arrive or `timeoutMs` passes, then
+ * cancel whatever is left. What arrived is returned either way.
+ */
+export async function readBody(res: Response, limits: BodyLimits): Promise<BodyRead> {
+  if (!res.body) return { body: Buffer.alloc(0), stopped: 'complete' };
+  const reader = res.body.getReader();
+  const deadline = Date.now() + limits.timeoutMs;
+  const chunks: Uint8Array[] = [];
+  let bytes = 0;
+  let stopped: BodyRead['stopped'] | null = null;
+
+  try {
+    while (!stopped) {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const timeout = new Promise<'timeout'>(resolve => { timer = setTimeout(() => resolve('timeout'), Math.max(deadline - Date.now(), 0)); });
+      const chunk = await Promise.race([reader.read(), timeout]).finally(() => clearTimeout(timer));
+
+      if (chunk === 'timeout') stopped = 'timeout';
+      else if (chunk.done) stopped = 'complete';
+      else {
+        chunks.push(chunk.value);
+        bytes += chunk.value.byteLength;
+        if (limits.maxBytes != null && bytes >= limits.maxBytes) stopped = 'size';
+      }
+    }
+  } finally {
+    // Not awaited: cancelling one branch of a clone settles only once the other is cancelled too
+    if (stopped !== 'complete') reader.cancel().catch(() => {});
+  }
+  return { body: Buffer.concat(chunks), stopped };
+}
+
+/** A whole body as text. Throws BodyTimeoutError if it doesn't finish within `timeoutMs`. */
+export async function readText(res: Response, timeoutMs: number): Promise<string> {
+  const { body, stopped } = await readBody(res, { timeoutMs });
+  if (stopped !== 'complete') throw new BodyTimeoutError(res.url, timeoutMs);
+  return body.toString('utf-8');
+}
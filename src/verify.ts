@@ -0,0 +1,168 @@
+/**
+ * On-Chain Settlement Verification (opt-in)
+ *
+ * A service's PAYMENT-RESPONSE header is only its word. With
+ * config.json → verification.enabled, each receipt is checked against the
+ * chain: the settlement transaction must contain a token Transfer from our
+ * wallet to the advertised payTo for the advertised amount, and, for EIP-3009
+ * payments, the AuthorizationUsed event for the nonce we signed. Without a
+ * transaction hash, the authorization's on-chain state tells whether it was
+ * ever used. Every result is appended to ~/.signal402/verifications.jsonl;
+ * anything but "verified" is surfaced as a warning in the tool result.
+ */
+
+import { appendFileSync, readFileSync, mkdirSync, existsSync } from 'fs';
+import { homedir } from 'os';
+import { join } from 'path';
+import { parseAbi, parseEventLogs, type Hex } from 'viem';
+import { loadConfig } from './config.js';
+import { getNetwork, publicClientFor } from './networks.js';
+import type { PaymentReceipt } from './receipt.js';
+
+const SIGNAL402_DIR = join(homedir(), '.signal402');
+const VERIFICATIONS_FILE = join(SIGNAL402_DIR, 'verifications.jsonl');
+
+const DEFAULT_WAIT_SECONDS = 30;
+
+const TOKEN_ABI = parseAbi([
+  'event Transfer(address indexed from, address indexed to, uint256 value)',
+  'event AuthorizationUsed(address indexed authorizer, bytes32 indexed nonce)',
+  'function authorizationState(address authorizer, bytes32 nonce) view returns (bool)',
+]);
+
+export type VerificationStatus =
+  | 'verified'     // transfer matches payer, payTo and amount
+  | 'overcharged'  // more than the advertised amount left the wallet
+  | 'mismatch'     // wrong recipient, short amount, or no matching transfer
+  | 'reverted'     // settlement transaction failed on-chain
+  | 'unsettled'    // no transaction, and the authorization was never used
+  | 'error';       // couldn't check (RPC down, unknown network, timeout)
+
+export interface VerificationResult {
+  timestamp: string;
+  url: string;
+  network: string;
+  tx_hash: string | null;
+  payer: string;
+  pay_to: string;
+  asset: string;
+  expected_amount: string;         // atomic units
+  transferred_amount: string | null;
+  status: VerificationStatus;
+  detail: string;
+}
+
+/** What we signed, as needed to check the chain. */
+export interface SignedPayment {
+  payer: string;
+  asset: string;
+  nonce?: Hex; // EIP-3009 authorization nonce
+}
+
+export function verificationEnabled(): boolean {
+  return loadConfig().verification?.enabled === true;
+}
+
+const same = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+// ── Verify ──────────────────────────────────────
+
+async function check(receipt: PaymentReceipt, signed: SignedPayment): Promise<Pick<VerificationResult, 'status' | 'detail' | 'transferred_amount'>> {
+  const net = getNetwork(receipt.network);
+  if (!net) return { status: 'error', detail: `No RPC for network ${receipt.network}`, transferred_amount: null };
+  const client = publicClientFor(net);
+  const expected = BigInt(receipt.amount);
+
+  if (!receipt.transaction) {
+    if (!signed.nonce) {
+      return { status: 'error', detail: 'No settlement transaction reported and no EIP-3009 nonce to look up', transferred_amount: null };
+    }
+    const used = await client.readContract({
+      address: signed.asset as Hex,
+      abi: TOKEN_ABI,
+      functionName: 'authorizationState',
+      args: [signed.payer as Hex, signed.nonce],
+    });
+    return used
+      ? { status: 'verified', detail: 'Authorization used on-chain (service sent no transaction hash)', transferred_amount: null }
+      : { status: 'unsettled', detail: 'Authorization not used on-chain yet — the service has not settled this payment', transferred_amount: null };
+  }
+
+  const wait = loadConfig().verification?.wait_seconds ?? DEFAULT_WAIT_SECONDS;
+  const tx = await client.waitForTransactionReceipt({ hash: receipt.transaction as Hex, timeout: wait * 1000 });
+  if (tx.status !== 'success') {
+    return { status: 'reverted', detail: `Settlement transaction reverted in block ${tx.blockNumber}`, transferred_amount: null };
+  }
+
+  const logs = parseEventLogs({ abi: TOKEN_ABI, logs: tx.logs }).filter(l => same(l.address, signed.asset));
+  const fromUs = logs.filter(l => l.eventName === 'Transfer' && same(l.args.from, signed.payer));
+  const toPayTo = fromUs.filter(l => l.eventName === 'Transfer' && same(l.args.to, receipt.pay_to));
+  const sum = (ls: typeof logs) => ls.reduce((s, l) => s + (l.eventName === 'Transfer' ? l.args.value : 0n), 0n);
+  const paid = sum(toPayTo);
+  const left = sum(fromUs);
+
+  if (signed.nonce && !logs.some(l => l.eventName === 'AuthorizationUsed' && same(l.args.nonce, signed.nonce!))) {
+    return { status: 'mismatch', detail: 'Transaction does not use the authorization we signed', transferred_amount: String(left) };
+  }
+  if (left > expected) {
+    return { status: 'overcharged', detail: `${left} left the wallet, ${expected} was advertised`, transferred_amount: String(left) };
+  }
+  if (toPayTo.length === 0) {
+    return {
+      status: 'mismatch',
+      detail: fromUs.length > 0 ? `Funds went to a different recipient than payTo ${receipt.pay_to}` : 'No transfer from this wallet in the transaction',
+      transferred_amount: String(left),
+    };
+  }
+  if (paid !== expected) {
+    return { status: 'mismatch', detail: `Transferred ${paid}, expected ${expected}`, transferred_amount: String(paid) };
+  }
+  return { status: 'verified', detail: `Transfer of ${paid} to payTo confirmed in block ${tx.blockNumber}`, transferred_amount: String(paid) };
+}
+
+/** Check one receipt on-chain and append the result to the report. Never throws. */
+export async function verifySettlement(receipt: PaymentReceipt, signed: SignedPayment): Promise<VerificationResult> {
+  let outcome: Pick<VerificationResult, 'status' | 'detail' | 'transferred_amount'>;
+  try {
+    outcome = await check(receipt, signed);
+  } catch (err) {
+    const message = err instanceof Error ? err.message.split('\n')[0] : String(err);
+    outcome = { status: 'error', detail: message, transferred_amount: null };
+  }
+
+  const result: VerificationResult = {
+    timestamp: new Date().toISOString(),
+    url: receipt.url,
+    network: receipt.network,
+    tx_hash: receipt.transaction,
+    payer: signed.payer,
+    pay_to: receipt.pay_to,
+    asset: signed.asset,
+    expected_amount: receipt.amount,
+    ...outcome,
+  };
+
+  try {
+    mkdirSync(SIGNAL402_DIR, { recursive: true, mode: 0o700 });
+    appendFileSync(VERIFICATIONS_FILE, JSON.stringify(result) + '\n', { mode: 0o600 });
+  } catch {
+    // Report is best-effort, like the ledger
+  }
+  return result;
+}
+
+/** All verification results, oldest first. Malformed lines are skipped. */
+export function readVerifications(): VerificationResult[] {
+  if (!existsSync(VERIFICATIONS_FILE)) return [];
+
+  const results: VerificationResult[] = [];
+  for (const line of readFileSync(VERIFICATIONS_FILE, 'utf-8').split('\n')) {
+    if (!line.trim()) continue;
+    try {
+      results.push(JSON.parse(line));
+    } catch {
+      // Partial write from a crashed process — skip
+    }
+  }
+  return results;
+}
@@ -1,19 +1,28 @@
-import { createPublicClient, http, parseAbi } from 'viem';
-import { base } from 'viem/chains';
+import type { Hex } from 'viem';
+import { generatePrivateKey, privateKeyToAddress } from 'viem/accounts';
 import { readFileSync, writeFileSync, mkdirSync, existsSync } from 'fs';
 import { homedir } from 'os';
 import { join } from 'path';
+import { encryptKeystore } from './keystore.js';
+import { homeNetwork } from './networks.js';
+import { getUsdcBalance } from './balances.js';
 
 const WALLET_DIR = join(homedir(), '.signal402');
 const WALLET_FILE = join(WALLET_DIR, 'wallet.json');
 const CLARA_PROXY = 'https://clara-proxy.bflynn-me.workers.dev';
-const USDC_BASE = '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913';
 
-interface WalletData {
+/** Which backend signs payments for this wallet. Absent means Para (clara-proxy). */
+export type SignerConfig =
+  | { type: 'para' }
+  | { type: 'keystore'; path: string } // V3 keystore, unlocked with SIGNAL402_KEYSTORE_PASSWORD
+  | { type: 'rpc'; url: string; headers?: Record<string, string> }; // eth_signTypedData_v4 endpoint
+
+export interface WalletData {
   address: string;
-  walletId: string;
+  walletId: string; // Para wallet id (empty for non-Para signers)
   email: string | null;
   created_at: string;
+  signer?: SignerConfig;
 }
 
 export async function getOrCreateWallet(email?: string): Promise<{ address: string; walletId: string; email: string | null; isNew: boolean; isRecovered: boolean }> {
@@ -95,6 +104,66 @@ export function loadWallet(): WalletData | null {
   return JSON.parse(readFileSync(WALLET_FILE, 'utf-8'));
 }
 
+/**
+ * Create a self-custodied wallet: encrypt a private key (generated, or imported)
+ * into a V3 keystore at ~/.signal402/keystore-<address>.json and point
+ * wallet.json at it. No clara-proxy involved — payments are signed locally.
+ * Each key gets its own file and an existing one is never overwritten, so
+ * moving wallet.json aside and running setup again can't destroy a funded key.
+ */
+export async function createKeystoreWallet(password: string, privateKey?: Hex): Promise<{ address: string; keystorePath: string }> {
+  if (existsSync(WALLET_FILE)) {
+    throw new Error(`${WALLET_FILE} already exists — move it aside to create a new wallet`);
+  }
+
+  const key = privateKey ?? generatePrivateKey();
+  const keystore = await encryptKeystore(key, password);
+  const address = privateKeyToAddress(key);
+  const keystorePath = join(WALLET_DIR, `keystore-${address.toLowerCase()}.json`);
+
+  mkdirSync(WALLET_DIR, { recursive: true, mode: 0o700 });
+  try {
+    writeFileSync(keystorePath, JSON.stringify(keystore, null, 2), { mode: 0o600, flag: 'wx' });
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code === 'EEXIST') {
+      throw new Error(`${keystorePath} already exists for ${address} — point wallet.json at it instead of importing the key again`);
+    }
+    throw err;
+  }
+
+  const data: WalletData = {
+    address,
+    walletId: '',
+    email: null,
+    created_at: new Date().toISOString(),
+    signer: { type: 'keystore', path: keystorePath },
+  };
+  writeFileSync(WALLET_FILE, JSON.stringify(data, null, 2), { mode: 0o600, flag: 'wx' });
+
+  return { address, keystorePath };
+}
+
+/**
+ * Point wallet.json at an external JSON-RPC signer (Frame, Clef, a signing
+ * sidecar). Keys never leave that signer; we only store its URL and address.
+ */
+export function createRpcSignerWallet(url: string, address: string, headers?: Record<string, string>): WalletData {
+  if (existsSync(WALLET_FILE)) {
+    throw new Error(`${WALLET_FILE} already exists — move it aside to use an external signer`);
+  }
+
+  const data: WalletData = {
+    address,
+    walletId: '',
+    email: null,
+    created_at: new Date().toISOString(),
+    signer: { type: 'rpc', url, ...(headers ? { headers } : {}) },
+  };
+  mkdirSync(WALLET_DIR, { recursive: true, mode: 0o700 });
+  writeFileSync(WALLET_FILE, JSON.stringify(data, null, 2), { mode: 0o600 });
+  return data;
+}
+
 export async function sponsorGas(address: string): Promise<boolean> {
   try {
     const res = await fetch(`${CLARA_PROXY}/onboard/sponsor-gas`, {
@@ -108,17 +177,9 @@ export async function sponsorGas(address: string): Promise<boolean> {
   }
 }
 
+/** USDC balance on the home network (Base, or Base Sepolia in testnet mode). See balances.ts for others. */
 export async function checkUsdcBalance(address: string): Promise<string> {
-  const client = createPublicClient({ chain: base, transport: http('https://mainnet.base.org') });
-  const balance = await client.readContract({
-    address: USDC_BASE as `0x${string}`,
-    abi: parseAbi(['function balanceOf(address) view returns (uint256)']),
-    functionName: 'balanceOf',
-    args: [address as `0x${string}`],
-  });
-  // USDC has 6 decimals
-  const formatted = (Number(balance) / 1e6).toFixed(2);
-  return formatted;
+  return getUsdcBalance(homeNetwork(), address);
 }
 
 export function getCoinbasePayUrl(address: string): string {
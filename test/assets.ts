@@ -0,0 +1,59 @@
+/**
+ * Asset pricing.
+ *
+ * Converts atomic amounts with the registry's decimals (6-decimal USDC,
+ * 18-decimal DAI), by v1 or CAIP-2 network name, rejects tokens it doesn't
+ * know with UnknownAssetError, and picks up tokens added in config.json.
+ * Only fixed prices are used, so nothing goes to CoinGecko.
+ *
+ * Run: cd ~/signal402/mcp && npx tsx test/assets.ts
+ */
+
+import assert from 'node:assert/strict';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+const home = mkdtempSync(join(tmpdir(), 'signal402-test-'));
+process.env.HOME = home;
+
+// After HOME is set: config.ts resolves ~/.signal402 when it loads
+const { priceAmount, findAsset, UnknownAssetError } = await import('../src/assets.js');
+
+const USDC_BASE = '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913';
+const DAI_BASE = '0x50c5725949A6F0c72E6C4a641F24049A917DB0Cb';
+const UNKNOWN = '0x1111111111111111111111111111111111111111';
+
+try {
+  const usdc = await priceAmount('eip155:8453', USDC_BASE, '10000');
+  assert.deepEqual(usdc, { symbol: 'USDC', decimals: 6, amount_formatted: '0.01', amount_usd: 0.01, price_source: 'fixed' });
+  assert.equal((await priceAmount('base', USDC_BASE.toLowerCase(), '10000')).amount_usd, 0.01, 'v1 names and any address case');
+
+  const dai = await priceAmount('base', DAI_BASE, '25000000000000000');
+  assert.equal(dai.amount_formatted, '0.025');
+  assert.equal(dai.amount_usd, 0.025, '18 decimals, not 6');
+
+  await assert.rejects(priceAmount('base', UNKNOWN, '1'), (err: unknown) => {
+    assert.ok(err instanceof UnknownAssetError);
+    assert.equal(err.asset, UNKNOWN);
+    assert.match(err.message, /^Unknown payment asset 0x1{40} on Base — can't price it in USD\./);
+    return true;
+  });
+  await assert.rejects(priceAmount('eip155:8453', USDC_BASE.replace('0x8', '0x9'), '1'), UnknownAssetError);
+
+  // ── Configured assets ─────────────────────────
+  mkdirSync(join(home, '.signal402'), { recursive: true });
+  writeFileSync(join(home, '.signal402', 'config.json'), JSON.stringify({
+    assets: [{ network: 'base', address: UNKNOWN, symbol: 'FOO', decimals: 18, usd_price: 2 }],
+  }));
+  const foo = await priceAmount('eip155:8453', UNKNOWN, '1500000000000000000');
+  assert.deepEqual([foo.symbol, foo.amount_formatted, foo.amount_usd], ['FOO', '1.5', 3]);
+  assert.equal(findAsset('base', USDC_BASE)?.symbol, 'USDC', 'built-ins still there');
+
+  writeFileSync(join(home, '.signal402', 'config.json'), JSON.stringify({ assets: [{ network: 'base', address: UNKNOWN, symbol: 'FOO', decimals: 18 }] }));
+  assert.throws(() => findAsset('base', UNKNOWN), /config\.json asset FOO: set usd_price or coingecko_id/);
+
+  console.log('PASS: asset pricing and unknown assets');
+} finally {
+  rmSync(home, { recursive: true, force: true });
+}
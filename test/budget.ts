@@ -0,0 +1,91 @@
+/**
+ * Spending budgets.
+ *
+ * Writes a config and a ledger into a throwaway HOME and checks what each
+ * window counts: the session only this process's entries, the day and week
+ * from their UTC boundaries, an origin only its own payments. Payments in
+ * flight count everywhere, refused (402) ones nowhere, and the message for
+ * an exceeded budget says when it resets.
+ *
+ * Run: cd ~/signal402/mcp && npx tsx test/budget.ts
+ */
+
+import assert from 'node:assert/strict';
+import { mkdirSync, mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+const home = mkdtempSync(join(tmpdir(), 'signal402-test-'));
+process.env.HOME = home;
+
+// After HOME is set: config.ts and ledger.ts resolve ~/.signal402 when they load
+const { getBudgetStatus, checkBudget } = await import('../src/budget.js');
+const { appendLedger, addPending, removePending } = await import('../src/ledger.js');
+
+const dir = join(home, '.signal402');
+mkdirSync(dir, { recursive: true });
+writeFileSync(join(dir, 'config.json'), JSON.stringify({
+  budget: { session: 10, daily: 2, weekly: 5, per_origin: { 'api.example.com': 0.5 } },
+}));
+
+// Wednesday, 15:30 UTC
+const now = new Date('2026-10-21T15:30:00Z');
+
+function entry(timestamp: string, url: string, amountUsd: number, status: number | null = 200) {
+  return {
+    timestamp, url, tool: 'test', scheme: 'exact', network: 'eip155:8453', asset: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+    amount: String(amountUsd * 1e6), amount_usd: amountUsd, pay_to: '0x000000000000000000000000000000000000dEaD', x402_version: 2, status,
+  };
+}
+
+/** Spent per window, rounded to cents so float sums compare exactly. */
+function spent(url?: string): Record<string, number> {
+  return Object.fromEntries(getBudgetStatus(url, now).map(w => [w.name, Math.round(w.spent_usd * 100) / 100]));
+}
+
+try {
+  // ── Windows ───────────────────────────────────
+  appendLedger(entry('2026-10-21T09:00:00Z', 'https://api.example.com/search', 0.3)); // today
+  appendLedger(entry('2026-10-21T10:00:00Z', 'https://other.dev/x', 0.2));             // today, elsewhere
+  appendLedger(entry('2026-10-21T11:00:00Z', 'https://api.example.com/search', 4, 402)); // refused: not spent
+  appendLedger(entry('2026-10-19T00:00:00Z', 'https://other.dev/x', 1));               // Monday: this week
+  appendLedger(entry('2026-10-18T23:59:59Z', 'https://other.dev/x', 3));               // Sunday: last week
+  // Another server process sharing the ledger, today
+  writeFileSync(join(dir, 'ledger.jsonl'), JSON.stringify({ ...entry('2026-10-21T12:00:00Z', 'https://other.dev/x', 0.1), session: 'other' }) + '\n', { flag: 'a' });
+
+  assert.deepEqual(spent(), { 'session': 4.5, 'daily': 0.6, 'weekly': 1.6, 'origin api.example.com': 0.3 });
+  assert.deepEqual(Object.keys(spent('https://other.dev/x')), ['session', 'daily', 'weekly'], 'only matching origin budgets');
+
+  const [session, daily, weekly] = getBudgetStatus(undefined, now);
+  assert.equal(session.resets_at, null);
+  assert.equal(daily.resets_at, '2026-10-22T00:00:00.000Z');
+  assert.equal(weekly.resets_at, '2026-10-26T00:00:00.000Z', 'weeks start on Monday');
+
+  // ── Enforcement ───────────────────────────────
+  assert.equal(checkBudget('https://api.example.com/search', 0.2, now), null);
+  assert.equal(
+    checkBudget('https://api.example.com/search', 0.25, now),
+    'Origin api.example.com budget exceeded: this payment costs $0.2500 but only $0.2000 of the $0.50 origin api.example.com budget is left. ' +
+      'Resets at 2026-10-22T00:00:00.000Z (in 8h 30m).'
+  );
+  assert.match(checkBudget('https://other.dev/x', 1.5, now)!, /^Daily budget exceeded: .* Resets at 2026-10-22T00:00:00\.000Z \(in 8h 30m\)\.$/);
+
+  // ── In flight ─────────────────────────────────
+  const first = addPending('https://api.example.com/search', 0.15);
+  assert.equal(spent()['origin api.example.com'], 0.45);
+  assert.match(checkBudget('https://api.example.com/search', 0.1, now)!, /only \$0\.0500 of the \$0\.50 origin/);
+  const second = addPending('https://other.dev/x', 0.2);
+  assert.equal(spent()['origin api.example.com'], 0.45, 'other origins\' payments don\'t count against this one');
+  assert.equal(spent().daily, 0.95);
+  removePending(first);
+  removePending(second);
+  assert.deepEqual(spent(), { 'session': 4.5, 'daily': 0.6, 'weekly': 1.6, 'origin api.example.com': 0.3 });
+
+  // ── Session ───────────────────────────────────
+  writeFileSync(join(dir, 'config.json'), JSON.stringify({ budget: { session: 5 } }));
+  assert.match(checkBudget('https://other.dev/x', 1, now)!, /^Session budget exceeded: .* Resets when the MCP server restarts\.$/);
+
+  console.log('PASS: budget windows, in-flight payments and reset messages');
+} finally {
+  rmSync(home, { recursive: true, force: true });
+}
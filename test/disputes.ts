@@ -0,0 +1,109 @@
+/**
+ * Dispute classification and storage.
+ *
+ * Builds paid responses locally and checks which count as failed, what
+ * evidence is kept, and that binary bodies are never read. Then records a
+ * few disputes in a throwaway HOME and resolves one.
+ *
+ * Run: cd ~/signal402/mcp && npx tsx test/disputes.ts
+ */
+
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+const home = mkdtempSync(join(tmpdir(), 'signal402-test-'));
+process.env.HOME = home;
+
+// After HOME is set: disputes.ts resolves ~/.signal402 when it loads
+const { classifyPaidResponse, recordDispute, resolveDispute, readDisputes, formatDispute } = await import('../src/disputes.js');
+type PaymentReceipt = import('../src/receipt.js').PaymentReceipt;
+
+const TIMEOUT_MS = 1000;
+const json = (body: string, status = 200) => new Response(body, { status, headers: { 'content-type': 'application/json' } });
+
+/** A body that never ends — reading it would hang until the timeout. */
+function stalled(mime: string, headers: Record<string, string> = {}): Response {
+  const body = new ReadableStream({ start(c) { c.enqueue(new Uint8Array([1, 2, 3])); } });
+  return new Response(body, { headers: { 'content-type': mime, ...headers } });
+}
+
+try {
+  // ── Status ────────────────────────────────────
+  assert.equal((await classifyPaidResponse(json('{"error":"boom"}', 500), {}, TIMEOUT_MS))?.kind, 'server_error');
+  const notFound = await classifyPaidResponse(json('{"error":"gone"}', 404), {}, TIMEOUT_MS);
+  assert.equal(notFound?.kind, 'client_error');
+  assert.equal(notFound?.body, '{"error":"gone"}', 'textual error bodies are kept as evidence');
+  assert.equal(await classifyPaidResponse(json('{}', 402), {}, TIMEOUT_MS), null, '402 again: nothing settled');
+
+  // ── Bodies ────────────────────────────────────
+  assert.equal((await classifyPaidResponse(json(''), {}, TIMEOUT_MS))?.kind, 'empty_body');
+  assert.equal(await classifyPaidResponse(new Response(null, { status: 204 }), {}, TIMEOUT_MS), null);
+  assert.equal(await classifyPaidResponse(json('{"a":1}'), { mime_type: 'application/json' }, TIMEOUT_MS), null);
+
+  const schema = { output_schema: { type: 'object', required: ['result'] } };
+  const missing = await classifyPaidResponse(json('{"other":1}'), schema, TIMEOUT_MS);
+  assert.equal(missing?.kind, 'schema_mismatch');
+  assert.match(missing!.detail, /result/);
+  assert.equal((await classifyPaidResponse(json('not json'), { mime_type: 'application/json' }, TIMEOUT_MS))?.detail, 'Body is not valid JSON');
+
+  // Past the evidence cap the JSON can't be judged, and isn't
+  const big = JSON.stringify({ result: 'x'.repeat(100 * 1024) });
+  assert.equal(await classifyPaidResponse(json(big), schema, TIMEOUT_MS), null);
+
+  // ── Binary bodies are never read ──────────────
+  let started = Date.now();
+  assert.equal(await classifyPaidResponse(stalled('image/png'), {}, TIMEOUT_MS), null);
+  assert.ok(Date.now() - started < TIMEOUT_MS / 2, 'a 2xx image is judged without reading it');
+  started = Date.now();
+  const failedPdf = await classifyPaidResponse(
+    new Response(stalled('application/pdf').body, { status: 502, headers: { 'content-type': 'application/pdf', 'content-length': '2048' } }),
+    {}, TIMEOUT_MS
+  );
+  assert.equal(failedPdf?.kind, 'server_error');
+  assert.equal(failedPdf?.body, '[2048 bytes of application/pdf]');
+  assert.ok(Date.now() - started < TIMEOUT_MS / 2, 'an error status is judged without reading a binary body');
+  assert.equal(
+    (await classifyPaidResponse(new Response(null, { headers: { 'content-type': 'image/png', 'content-length': '0' } }), {}, TIMEOUT_MS))?.kind,
+    'empty_body'
+  );
+
+  // ── Storage ───────────────────────────────────
+  const receipt = (settled: boolean | null): PaymentReceipt => ({
+    url: 'https://api.example.com/v1/search',
+    amount: '10000',
+    amount_formatted: '0.01 USDC',
+    amount_usd: 0.01,
+    network: 'eip155:8453',
+    pay_to: '0x000000000000000000000000000000000000dEaD',
+    settled,
+    transaction: settled ? '0xabc' : null,
+    explorer_url: null,
+  });
+  const record = (settled: boolean | null) => recordDispute({
+    tool: 'signal402_call',
+    kind: 'server_error',
+    detail: 'HTTP 500 after payment',
+    receipt: receipt(settled),
+    request: { url: 'https://api.example.com/v1/search', init: { method: 'POST', headers: { Authorization: 'Bearer secret' }, body: '{}' } },
+    response: json('{}', 500),
+    body: '{}',
+  });
+
+  const settled = record(true);
+  const unconfirmed = record(null);
+  assert.equal(settled.unconfirmed, undefined);
+  assert.equal(unconfirmed.unconfirmed, true, 'no settlement receipt: not known to be refundable');
+  assert.match(formatDispute(unconfirmed), /settlement unconfirmed/);
+  assert.equal(settled.request.headers.authorization, '[redacted]');
+
+  assert.equal(resolveDispute(settled.id, 'refunded')?.status, 'resolved');
+  assert.equal(resolveDispute('nope'), null);
+  const stored = readDisputes();
+  assert.deepEqual(stored.map(d => [d.id, d.status, d.note]), [[settled.id, 'resolved', 'refunded'], [unconfirmed.id, 'open', undefined]]);
+
+  console.log('PASS: dispute classification and storage');
+} finally {
+  rmSync(home, { recursive: true, force: true });
+}
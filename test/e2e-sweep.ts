@@ -23,22 +23,13 @@ const DEBUG = process.env.DEBUG_X402 === '1';
 
 import { x402Fetch, fetchCatalog, fetchRecommend, fetchProbe } from '../src/client.js';
 import { loadWallet } from '../src/wallet.js';
+import type { EndpointSchema } from '../src/schema.js';
 import { writeFileSync } from 'fs';
 import { join, dirname } from 'path';
 import { fileURLToPath } from 'url';
 
 // ── Types ────────────────────────────────────────
 
-interface EndpointSchema {
-  url: string;
-  method: string;
-  bodyType?: string;
-  bodyFields?: Record<string, { type: string; required?: boolean; description?: string }>;
-  queryParams?: Record<string, { type: string; required?: boolean; description?: string }>;
-  description: string;
-  price_usd: number;
-}
-
 interface QueryResult {
   query: string;
   category?: string;
@@ -231,26 +222,6 @@ function matchesExpected(results: Array<{ name: string }>, expected: string, top
   return results.slice(0, topN).some(r => r.name.toLowerCase().includes(needle));
 }
 
-/** Try .well-known/x402 discovery on a domain */
-async function discoverEndpoints(origin: string): Promise<Array<{ url: string; method: string }>> {
-  try {
-    const res = await fetch(`${origin}/.well-known/x402`, {
-      signal: AbortSignal.timeout(5000),
-    });
-    if (!res.ok) return [];
-    const data = await res.json() as any;
-    // .well-known/x402 may return { endpoints: [...] } or an array directly
-    const endpoints = Array.isArray(data) ? data : data?.endpoints;
-    if (!Array.isArray(endpoints)) return [];
-    return endpoints.map((e: any) => ({
-      url: typeof e === 'string' ? e : e.url || e.endpoint,
-      method: e.method || 'GET',
-    }));
-  } catch {
-    return [];
-  }
-}
-
 // ── Phase 1: Catalog Snapshot ─────────────────────
 
 async function phase1_catalog(): Promise<TestResults['catalog']> {
@@ -532,17 +503,18 @@ async function phase4_calls(
         const sorted = [...r.endpoints].sort((a, b) => {
           if (a.method === 'GET' && b.method !== 'GET') return -1;
           if (b.method === 'GET' && a.method !== 'GET') return 1;
-          return a.price_usd - b.price_usd;
+          return (a.price_usd ?? 0) - (b.price_usd ?? 0);
         });
         const ep = sorted[0]!;
+        const method = ep.method ?? 'GET'; // unset when the 402 didn't say
         // For GET endpoints, append query params from schema to URL
-        const qs = ep.method === 'GET' ? buildQueryString(ep) : '';
+        const qs = method === 'GET' ? buildQueryString(ep) : '';
         callTargets.push({
           service: r.name,
           endpoint: ep.url + qs,
-          method: ep.method,
+          method,
           body: buildRequestBody(ep),
-          max_cost: Math.max(ep.price_usd * 1.2, 0.01), // 20% buffer
+          max_cost: Math.max((ep.price_usd ?? 0) * 1.2, 0.01), // 20% buffer
           source: 'bazaar-schema',
         });
       }
@@ -0,0 +1,149 @@
+/**
+ * Held payments and allow_repay.
+ *
+ * A local mock of Signal402 answers /catalog with a 402, fails the first
+ * paid attempt with a 500, refuses that same payment when it's resent, and
+ * takes a new one. Without a key the payment is held after the 500, so the
+ * next identical call resends it and stops when it's refused; allow_repay
+ * signs a new one, through fetchCatalog as the discovery tools call it. Then
+ * checks that installed service tools take allow_repay and pass it down.
+ *
+ * Payments are signed by a throwaway key behind a local JSON-RPC signer, in
+ * a throwaway HOME, so nothing real is paid and ~/.signal402 is left alone.
+ *
+ * Run: cd ~/signal402/mcp && npx tsx test/idempotency.ts
+ */
+
+import assert from 'node:assert/strict';
+import { createServer, type IncomingMessage, type ServerResponse } from 'http';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { AddressInfo } from 'net';
+import { generatePrivateKey, privateKeyToAccount } from 'viem/accounts';
+
+const home = mkdtempSync(join(tmpdir(), 'signal402-test-'));
+process.env.HOME = home;
+
+function listen(handler: (req: IncomingMessage, res: ServerResponse, body: string) => void): Promise<{ base: string; close: () => void }> {
+  const server = createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => body += chunk);
+    req.on('end', () => handler(req, res, body));
+  });
+  return new Promise(resolve => server.listen(0, '127.0.0.1', () => resolve({
+    base: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    close: () => server.close(),
+  })));
+}
+
+// ── Signer ────────────────────────────────────────
+
+const account = privateKeyToAccount(generatePrivateKey());
+let signed = 0;
+const signer = await listen(async (_req, res, body) => {
+  const { id, params } = JSON.parse(body);
+  const typedData = JSON.parse(params[1]);
+  const { EIP712Domain: _, ...types } = typedData.types;
+  signed++;
+  res.end(JSON.stringify({ jsonrpc: '2.0', id, result: await account.signTypedData({ ...typedData, types }) }));
+});
+
+// ── Mock Signal402 ────────────────────────────────
+
+const paymentRequired = {
+  x402Version: 2,
+  resource: { url: 'http://localhost/catalog', description: 'Catalog', mimeType: 'application/json' },
+  accepts: [{
+    scheme: 'exact',
+    network: 'eip155:8453',
+    asset: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+    amount: '10000',
+    payTo: '0x000000000000000000000000000000000000dEaD',
+    maxTimeoutSeconds: 60,
+    extra: { name: 'USD Coin', version: '2' },
+  }],
+};
+
+const payments: string[] = [];
+const service = await listen((req, res) => {
+  const payment = req.headers['payment-signature'] as string | undefined;
+  if (!payment) {
+    res.writeHead(402, { 'PAYMENT-REQUIRED': Buffer.from(JSON.stringify(paymentRequired)).toString('base64') });
+    res.end('{}');
+    return;
+  }
+  const seenBefore = payments.includes(payment);
+  payments.push(payment);
+  if (payments.length === 1) {
+    res.writeHead(500, { 'content-type': 'application/json' });
+    res.end('{"error":"upstream down"}');
+  } else if (seenBefore) {
+    // Settled already, as far as the service is concerned
+    res.writeHead(402, { 'PAYMENT-REQUIRED': Buffer.from(JSON.stringify(paymentRequired)).toString('base64') });
+    res.end('{}');
+  } else {
+    res.writeHead(200, { 'content-type': 'application/json' });
+    res.end('{"services":[]}');
+  }
+});
+process.env.SIGNAL402_URL = service.base;
+
+// After HOME and SIGNAL402_URL are set: both are read when the modules load
+const { createRpcSignerWallet } = await import('../src/wallet.js');
+const { fetchCatalog, setPaymentApprover } = await import('../src/client.js');
+const { readLedger } = await import('../src/ledger.js');
+const { installService } = await import('../src/services.js');
+const { registerServiceTools } = await import('../src/service-tools.js');
+const { McpServer } = await import('@modelcontextprotocol/sdk/server/mcp.js');
+const { Client } = await import('@modelcontextprotocol/sdk/client/index.js');
+const { InMemoryTransport } = await import('@modelcontextprotocol/sdk/inMemory.js');
+
+// ── Test ──────────────────────────────────────────
+
+try {
+  createRpcSignerWallet(signer.base, account.address);
+  setPaymentApprover(async () => 'approved');
+
+  await assert.rejects(fetchCatalog(), /Catalog fetch failed: 500/);
+  assert.equal(signed, 1);
+
+  // Same request, no key: the held payment is resent, refused, and nothing new is signed
+  await assert.rejects(fetchCatalog(), /Already paid for this request .*retry with allow_repay/);
+  assert.equal(signed, 1, 'a refused replay signs nothing');
+  assert.equal(payments.length, 2);
+  assert.equal(payments[1], payments[0], 'the held payment was resent');
+
+  assert.deepEqual(await fetchCatalog(undefined, { allowRepay: true }), { services: [] });
+  assert.equal(signed, 2, 'allow_repay signs a new payment');
+  assert.deepEqual(readLedger().map(e => e.status), [500, 200], 'the resent payment isn\'t written twice');
+
+  // ── Tools take allow_repay ────────────────────
+  await installService(`${service.base}/catalog`, { name: 'mock' });
+  const server = new McpServer({ name: 'test', version: '0' });
+  server.tool('static', 'Registered before connect, like the real server', async () => ({ content: [] }));
+  const calls: Array<boolean | undefined> = [];
+  registerServiceTools(server, async (_url, _init, payment) => {
+    calls.push(payment.allowRepay);
+    return { content: [{ type: 'text', text: 'ok' }] };
+  });
+
+  const [serverSide, clientSide] = InMemoryTransport.createLinkedPair();
+  const client = new Client({ name: 'test', version: '0' });
+  await server.connect(serverSide);
+  await client.connect(clientSide);
+
+  const { tools } = await client.listTools();
+  const tool = tools.find(t => t.name === 'x402__mock__catalog');
+  assert.ok(tool?.inputSchema.properties?.allow_repay, 'installed service tools offer allow_repay');
+  await client.callTool({ name: tool!.name, arguments: {} });
+  await client.callTool({ name: tool!.name, arguments: { allow_repay: true } });
+  assert.deepEqual(calls, [false, true]);
+  await client.close();
+
+  console.log('PASS: held payments are resent, refused replays stop, and allow_repay pays again');
+} finally {
+  service.close();
+  signer.close();
+  rmSync(home, { recursive: true, force: true });
+}
@@ -0,0 +1,97 @@
+/**
+ * Keystore round trip and the keystore signer.
+ *
+ * Encrypts a key and decrypts it again, rejects a wrong password, and reads
+ * the pbkdf2 test vector from the Web3 Secret Storage spec. Then creates a
+ * keystore wallet in a throwaway HOME and signs with it: scrypt must not
+ * block the event loop, and the key is decrypted once per process.
+ *
+ * Run: cd ~/signal402/mcp && npx tsx test/keystore.ts
+ */
+
+import assert from 'node:assert/strict';
+import { mkdtempSync, rmSync, unlinkSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { verifyTypedData, type Hex } from 'viem';
+import { privateKeyToAddress } from 'viem/accounts';
+
+const home = mkdtempSync(join(tmpdir(), 'signal402-test-'));
+process.env.HOME = home;
+
+// After HOME is set: wallet.ts resolves ~/.signal402 when it loads
+const { encryptKeystore, decryptKeystore } = await import('../src/keystore.js');
+type KeystoreV3 = import('../src/keystore.js').KeystoreV3;
+const { createKeystoreWallet, loadWallet } = await import('../src/wallet.js');
+const { createSigner } = await import('../src/account.js');
+
+const KEY: Hex = '0x7a28b5ba57c53603b0b07b56bba752f7784bf506fa95edc395f5cf6c7514fe9d';
+
+// Web3 Secret Storage Definition, PBKDF2-SHA-256 test vector (password "testpassword")
+const PBKDF2_VECTOR = {
+  version: 3,
+  id: '3198bc9c-6672-5ab3-d995-4942343ae5b6',
+  address: '008aeeda4d805471df9b2a5b0f38a0c3bcba786b',
+  crypto: {
+    cipher: 'aes-128-ctr',
+    cipherparams: { iv: '6087dab2f9fdbbfaddc31a909735c1e6' },
+    ciphertext: '5318b4d5bcd28de64ee5559e671353e16f075ecae9f99c7a79a38af5f869aa46',
+    kdf: 'pbkdf2',
+    kdfparams: { c: 262144, dklen: 32, prf: 'hmac-sha256', salt: 'ae3cd4e7013836a3df6bd7241b12db061dbe2c6785853cce422d148a624ce0bd' },
+    mac: '517ead924a9d0dc3124507e3393d175ce3ff7c1e96529c6c555ce9e51205e9b2',
+  },
+} as const;
+
+const typedData = {
+  domain: { name: 'Test', version: '1', chainId: 8453 },
+  types: { Ping: [{ name: 'n', type: 'uint256' }] },
+  primaryType: 'Ping',
+  message: { n: 1n },
+} as const;
+
+/** Count timer ticks while `fn` runs: zero means the event loop was blocked throughout. */
+async function ticksDuring<T>(fn: () => Promise<T>): Promise<{ result: T; ticks: number }> {
+  let ticks = 0;
+  const timer = setInterval(() => ticks++, 10);
+  try {
+    return { result: await fn(), ticks };
+  } finally {
+    clearInterval(timer);
+  }
+}
+
+try {
+  // ── Round trip ────────────────────────────────
+  const { result: keystore, ticks } = await ticksDuring(() => encryptKeystore(KEY, 'correct horse'));
+  assert.ok(ticks > 0, 'scrypt runs off the main thread');
+  assert.equal(keystore.address, privateKeyToAddress(KEY).slice(2).toLowerCase());
+  assert.equal(keystore.crypto.kdf, 'scrypt');
+  assert.equal(await decryptKeystore(keystore, 'correct horse'), KEY);
+  await assert.rejects(decryptKeystore(keystore, 'wrong'), /MAC mismatch — wrong password\?/);
+
+  assert.equal(await decryptKeystore(PBKDF2_VECTOR as unknown as KeystoreV3, 'testpassword'), KEY);
+
+  // ── Signer ────────────────────────────────────
+  const address = (await createKeystoreWallet('correct horse', KEY)).address as Hex;
+  const wallet = loadWallet()!;
+  assert.equal(wallet.signer?.type, 'keystore');
+
+  delete process.env.SIGNAL402_KEYSTORE_PASSWORD;
+  assert.throws(() => createSigner(wallet), /SIGNAL402_KEYSTORE_PASSWORD is not set/);
+  process.env.SIGNAL402_KEYSTORE_PASSWORD = 'correct horse';
+
+  const signer = createSigner(wallet);
+  assert.equal(signer.address, address);
+  const first = await ticksDuring(() => signer.signTypedData(typedData));
+  assert.ok(first.ticks > 0, 'unlocking doesn\'t block the event loop');
+  assert.ok(await verifyTypedData({ address, ...typedData, signature: first.result }));
+
+  // The keystore file isn't read again: it was decrypted once for this process
+  unlinkSync((wallet.signer as { path: string }).path);
+  const again = await createSigner(wallet).signTypedData({ ...typedData, message: { n: 2n } });
+  assert.ok(await verifyTypedData({ address, ...typedData, message: { n: 2n }, signature: again }));
+
+  console.log('PASS: keystore round trip and signer');
+} finally {
+  rmSync(home, { recursive: true, force: true });
+}
@@ -0,0 +1,62 @@
+/**
+ * Payment policy rules.
+ *
+ * Checks origin globs (hostnames, full origins, `*.` subdomains), recipient
+ * and network lists, and that deny rules win over allow rules. Policies are
+ * passed in directly, so policy.json isn't read.
+ *
+ * Run: cd ~/signal402/mcp && npx tsx test/policy.ts
+ */
+
+import assert from 'node:assert/strict';
+import { checkPolicy, type SpendPolicy } from '../src/policy.js';
+
+const payTo = '0x000000000000000000000000000000000000dEaD';
+const base = { payTo, network: 'eip155:8453' };
+const allowed = (url: string, policy: SpendPolicy, payment = base) => checkPolicy(url, payment, policy) === null;
+
+// ── Origins ───────────────────────────────────────
+
+const subdomains: SpendPolicy = { allow: { origins: ['*.firecrawl.dev'] } };
+assert.ok(allowed('https://api.firecrawl.dev/v1/scrape', subdomains));
+assert.ok(allowed('https://a.b.firecrawl.dev/', subdomains), '* matches any run of characters, dots included');
+assert.ok(!allowed('https://firecrawl.dev/v1/scrape', subdomains), '*.example.com doesn\'t match example.com itself');
+assert.ok(!allowed('https://evilfirecrawl.dev/', subdomains));
+assert.ok(!allowed('https://firecrawl.dev.evil.com/', subdomains), 'patterns are anchored');
+
+const hosts: SpendPolicy = { allow: { origins: ['signal402.com'] } };
+assert.ok(allowed('https://signal402.com/catalog', hosts));
+assert.ok(allowed('http://SIGNAL402.com:8080/catalog', hosts), 'hostnames ignore scheme, port and case');
+assert.ok(!allowed('https://api.signal402.com/catalog', hosts));
+assert.ok(!allowed('https://signal402xcom/', hosts), 'dots are literal');
+
+const origins: SpendPolicy = { allow: { origins: ['https://api.example.com/'] } };
+assert.ok(allowed('https://api.example.com/x', origins));
+assert.ok(!allowed('http://api.example.com/x', origins), 'full origins match the scheme');
+assert.ok(!allowed('https://api.example.com:8443/x', origins), 'and the port');
+
+assert.equal(
+  checkPolicy('https://api.example.com/x', base, subdomains),
+  'Blocked by payment policy rule allow.origins: api.example.com is not in the allowlist.'
+);
+assert.match(checkPolicy('not a url', base, {})!, /cannot parse URL/);
+
+// ── Deny wins ─────────────────────────────────────
+
+const both: SpendPolicy = { allow: { origins: ['*.example.com'] }, deny: { origins: ['*.sketchy.example.com'] } };
+assert.ok(allowed('https://api.example.com/', both));
+assert.equal(
+  checkPolicy('https://x.sketchy.example.com/', base, both),
+  'Blocked by payment policy rule deny.origins "*.sketchy.example.com" (matched x.sketchy.example.com).'
+);
+assert.ok(allowed('https://anything.dev/', { allow: { origins: [] } }), 'an empty allow list allows everything');
+
+// ── Recipients and networks ───────────────────────
+
+assert.ok(allowed('https://a.dev/', { allow: { pay_to: [payTo.toUpperCase().replace('0X', '0x')] } }), 'addresses are case-insensitive');
+assert.match(checkPolicy('https://a.dev/', base, { deny: { pay_to: [payTo.toLowerCase()] } })!, /deny\.pay_to/);
+assert.ok(allowed('https://a.dev/', { allow: { networks: ['eip155:*'] } }));
+assert.ok(!allowed('https://a.dev/', { allow: { networks: ['eip155:*'] } }, { payTo, network: 'solana:mainnet' }));
+assert.match(checkPolicy('https://a.dev/', base, { deny: { networks: ['eip155:8453'] } })!, /deny\.networks "eip155:8453"/);
+
+console.log('PASS: payment policy globs and rules');
@@ -6,9 +6,13 @@
  * 2. 402 response on common API paths
  * 3. x402Version in any response body
  *
+ * Uses the same scanner as `signal402 scan` (src/scan.ts).
+ *
  * Run: cd ~/signal402/mcp && npx tsx test/probe-x402.ts
  */
 
+import { scanOrigin, type ScanResult } from '../src/scan.js';
+
 const SERVICES = [
   { name: 'AIsa', url: 'https://aisa.bot' },
   { name: 'BlockRun.AI', url: 'https://blockrun.ai' },
@@ -56,90 +60,26 @@ const SERVICES = [
   { name: 'Space and Time', url: 'https://spaceandtime.io' },
 ];
 
-// Common API prefixes to try on each domain
-const API_PATHS = [
-  '/.well-known/x402',
-  '/api',
-  '/api/v1',
-  '/api/v2',
-  '/v1',
-  '/v2',
-];
-
 interface ProbeResult {
   name: string;
   url: string;
-  has_wellknown: boolean;
-  x402_endpoints: string[];      // paths that returned 402
-  x402_version?: number;
-  payment_details?: any;
+  scan: ScanResult | null;
   error?: string;
 }
 
 async function probeService(service: { name: string; url: string }): Promise<ProbeResult> {
-  const origin = service.url.replace(/\/$/, '');
-  const result: ProbeResult = {
-    name: service.name,
-    url: service.url,
-    has_wellknown: false,
-    x402_endpoints: [],
-  };
-
-  // Check all paths concurrently with timeout
-  const checks = API_PATHS.map(async (path) => {
-    const fullUrl = `${origin}${path}`;
-    try {
-      const res = await fetch(fullUrl, {
-        method: 'GET',
-        signal: AbortSignal.timeout(5000),
-        redirect: 'follow',
-      });
-
-      if (path === '/.well-known/x402' && res.ok) {
-        result.has_wellknown = true;
-        try {
-          const body = await res.json() as any;
-          if (body?.endpoints || Array.isArray(body)) {
-            const eps = Array.isArray(body) ? body : body.endpoints;
-            result.x402_endpoints.push(...eps.map((e: any) => typeof e === 'string' ? e : e.url || e.endpoint));
-          }
-        } catch { /* not JSON */ }
-        return;
-      }
-
-      if (res.status === 402) {
-        result.x402_endpoints.push(fullUrl);
-        try {
-          const body = await res.json() as any;
-          if (body?.x402Version) {
-            result.x402_version = body.x402Version;
-            result.payment_details = {
-              scheme: body.accepts?.[0]?.scheme,
-              amount: body.accepts?.[0]?.maxAmountRequired || body.accepts?.[0]?.amount,
-              asset: body.accepts?.[0]?.asset,
-              network: body.accepts?.[0]?.network,
-              payTo: body.accepts?.[0]?.payTo,
-            };
-          }
-        } catch { /* not JSON */ }
-      }
-    } catch {
-      // Timeout or DNS failure — skip silently
-    }
-  });
-
   try {
-    await Promise.all(checks);
+    return { ...service, scan: await scanOrigin(service.url, { concurrency: 6, timeoutMs: 5000 }) };
   } catch (err: any) {
-    result.error = err.message;
+    return { ...service, scan: null, error: err.message };
   }
-
-  return result;
 }
 
+const hasX402 = (r: ProbeResult) => !!r.scan && (r.scan.protected.length > 0 || r.scan.well_known.length > 0);
+
 async function main() {
   console.log('Probing 44 editorial services for native x402 support...\n');
-  console.log('Checking: .well-known/x402 + 5 common API paths per service');
+  console.log('Checking: .well-known/x402 endpoints + common API paths per service (see src/scan.ts)');
   console.log('Timeout: 5s per request\n');
 
   const startTime = performance.now();
@@ -154,10 +94,11 @@ async function main() {
 
     for (const r of batchResults) {
       results.push(r);
-      const icon = r.x402_endpoints.length > 0 || r.has_wellknown ? '✓ x402' : '  ---';
-      const detail = r.x402_endpoints.length > 0
-        ? `${r.x402_endpoints.length} endpoint(s), v${r.x402_version || '?'}`
-        : r.has_wellknown ? '.well-known/x402 found' : '';
+      const icon = hasX402(r) ? '✓ x402' : '  ---';
+      const found = r.scan?.protected ?? [];
+      const detail = found.length > 0
+        ? `${found.length} endpoint(s), v${found[0].x402_version || '?'}`
+        : r.scan?.well_known.length ? '.well-known/x402 found' : r.error ?? '';
       console.log(`${icon}  ${r.name.padEnd(25)} ${detail}`);
     }
   }
@@ -165,7 +106,7 @@ async function main() {
   const elapsed = Math.round(performance.now() - startTime);
 
   // Summary
-  const x402Services = results.filter(r => r.x402_endpoints.length > 0 || r.has_wellknown);
+  const x402Services = results.filter(hasX402);
 
   console.log(`\n${'═'.repeat(50)}`);
   console.log(`Probed ${results.length} services in ${(elapsed / 1000).toFixed(1)}s`);
@@ -173,16 +114,13 @@ async function main() {
 
   for (const s of x402Services) {
     console.log(`  ${s.name}`);
-    if (s.has_wellknown) console.log(`    .well-known/x402: YES`);
-    for (const ep of s.x402_endpoints) {
-      console.log(`    402 endpoint: ${ep}`);
-    }
-    if (s.payment_details) {
-      const pd = s.payment_details;
-      const amountNum = parseInt(pd.amount || '0', 10);
-      const usdPrice = amountNum / 1_000_000; // USDC has 6 decimals
-      console.log(`    Price: $${usdPrice.toFixed(4)} (${pd.scheme}, ${pd.network})`);
-      console.log(`    Pay to: ${pd.payTo}`);
+    if (s.scan!.well_known.length > 0) console.log(`    .well-known/x402: YES (${s.scan!.well_known.length} endpoint(s))`);
+    for (const hit of s.scan!.protected) {
+      console.log(`    402 endpoint: ${hit.method} ${hit.url}`);
+      for (const o of hit.options) {
+        const price = o.amount_usd != null ? `$${o.amount_usd.toFixed(4)}` : `${o.amount} atomic`;
+        console.log(`      Price: ${price} (${o.scheme}, ${o.network}), pay to ${o.pay_to}`);
+      }
     }
     console.log();
   }
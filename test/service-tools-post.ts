@@ -0,0 +1,108 @@
+/**
+ * Installed POST endpoint whose 402 declares no method.
+ *
+ * A local mock service answers POST /v1/search with a v1 402 whose input
+ * schema has body fields but no method. Installing it with --method POST
+ * must give a tool that POSTs a JSON body, and that request must pass the
+ * schema check the paid call path runs before paying. Nothing is paid: the
+ * paid call is replaced by one that only validates and records the request.
+ *
+ * Uses a throwaway HOME, so ~/.signal402 is left alone.
+ *
+ * Run: cd ~/signal402/mcp && npx tsx test/service-tools-post.ts
+ */
+
+import assert from 'node:assert/strict';
+import { createServer, type IncomingMessage } from 'http';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { AddressInfo } from 'net';
+
+const home = mkdtempSync(join(tmpdir(), 'signal402-test-'));
+process.env.HOME = home;
+
+// After HOME is set: services.ts resolves ~/.signal402 when it loads
+const { McpServer } = await import('@modelcontextprotocol/sdk/server/mcp.js');
+const { Client } = await import('@modelcontextprotocol/sdk/client/index.js');
+const { InMemoryTransport } = await import('@modelcontextprotocol/sdk/inMemory.js');
+const { installService } = await import('../src/services.js');
+const { registerServiceTools } = await import('../src/service-tools.js');
+const { validateRequest } = await import('../src/schema.js');
+
+// ── Mock service ──────────────────────────────────
+
+const paymentRequired = {
+  x402Version: 1,
+  accepts: [{
+    scheme: 'exact',
+    network: 'base',
+    maxAmountRequired: '20000',
+    resource: 'http://localhost/v1/search',
+    description: 'Search the web',
+    mimeType: 'application/json',
+    payTo: '0x000000000000000000000000000000000000dEaD',
+    maxTimeoutSeconds: 60,
+    asset: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+    // No method: the service only says what the body holds
+    outputSchema: {
+      input: { type: 'http', bodyType: 'json', bodyFields: { q: { type: 'string', required: true }, limit: { type: 'integer' } } },
+      output: { type: 'object' },
+    },
+    extra: { name: 'USD Coin', version: '2' },
+  }],
+};
+
+const seen: Array<{ method: string; url: string }> = [];
+const mock = createServer((req: IncomingMessage, res) => {
+  seen.push({ method: req.method!, url: req.url! });
+  if (req.url === '/v1/search' && req.method === 'POST') {
+    res.writeHead(402, { 'content-type': 'application/json' });
+    res.end(JSON.stringify(paymentRequired));
+    return;
+  }
+  res.writeHead(404);
+  res.end();
+});
+await new Promise<void>(resolve => mock.listen(0, '127.0.0.1', resolve));
+const base = `http://127.0.0.1:${(mock.address() as AddressInfo).port}`;
+
+// ── Test ──────────────────────────────────────────
+
+try {
+  const service = await installService(`${base}/v1/search`, { name: 'acme', method: 'POST' });
+  const [endpoint] = service.endpoints;
+  assert.equal(endpoint.method, 'POST');
+  assert.ok(endpoint.schema, 'the 402\'s input schema is kept');
+  assert.equal(endpoint.schema.method, undefined, 'no method is made up for the schema');
+
+  const server = new McpServer({ name: 'test', version: '0' });
+  server.tool('static', 'Registered before connect, like the real server', async () => ({ content: [] }));
+
+  const requests: Array<{ url: string; init: RequestInit; problems: string[] }> = [];
+  registerServiceTools(server, async (url, init, payment) => {
+    assert.equal(payment.validate, true, 'calls with a schema are validated');
+    const { problems } = validateRequest(endpoint.schema!, { url, method: init.method!, body: init.body as string });
+    requests.push({ url, init, problems });
+    return { content: [{ type: 'text', text: problems.length > 0 ? problems.join('; ') : 'ok' }], isError: problems.length > 0 };
+  });
+
+  const [serverSide, clientSide] = InMemoryTransport.createLinkedPair();
+  const client = new Client({ name: 'test', version: '0' });
+  await server.connect(serverSide);
+  await client.connect(clientSide);
+
+  const result = await client.callTool({ name: 'x402__acme__search', arguments: { q: 'x402', limit: 3 } });
+  assert.equal(result.isError, false, `tool call failed: ${JSON.stringify(result.content)}`);
+  assert.equal(requests.length, 1);
+  assert.equal(requests[0].init.method, 'POST');
+  assert.deepEqual(JSON.parse(requests[0].init.body as string), { q: 'x402', limit: 3 });
+  assert.deepEqual(requests[0].problems, []);
+  assert.ok(seen.every(r => r.method === 'POST' || r.url === '/.well-known/x402'), 'install probed with POST');
+
+  await client.close();
+  console.log('PASS: installed POST endpoint without a declared method validates and POSTs');
+} finally {
+  mock.close();
+  rmSync(home, { recursive: true, force: true });
+}
@@ -0,0 +1,101 @@
+/**
+ * Request timeouts and retries.
+ *
+ * A local server answers 503 a couple of times before 200, stalls before
+ * sending headers, or starts a body and never finishes it. Unpaid requests
+ * are retried through all of that; a request carrying a payment header is
+ * resent only when no answer came back. Body reads stop at their deadline
+ * or size limit.
+ *
+ * Run: cd ~/signal402/mcp && npx tsx test/transport.ts
+ */
+
+import assert from 'node:assert/strict';
+import { createServer } from 'http';
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { AddressInfo } from 'net';
+
+const home = mkdtempSync(join(tmpdir(), 'signal402-test-'));
+process.env.HOME = home;
+
+// After HOME is set: config.ts resolves ~/.signal402 when it loads
+const { sendWithRetry, readBody, readText, transportSettings, RequestTimeoutError, BodyTimeoutError } = await import('../src/transport.js');
+
+const hits = new Map<string, number>();
+const server = createServer((req, res) => {
+  const n = (hits.get(req.url!) ?? 0) + 1;
+  hits.set(req.url!, n);
+  if (req.url === '/flaky') {
+    res.writeHead(n < 3 ? 503 : 200, { 'retry-after': '0' });
+    res.end(n < 3 ? 'busy' : 'ok');
+  } else if (req.url === '/slow-once') {
+    // First attempt gets no headers before the timeout; the retry is answered
+    if (n > 1) res.end('ok');
+  } else if (req.url === '/stall') {
+    // Headers, then a body that never finishes
+    res.writeHead(200, { 'content-type': 'text/plain' });
+    res.write('partial');
+  } else if (req.url === '/big') {
+    res.end('x'.repeat(64 * 1024));
+  } else {
+    // Never answers
+  }
+});
+await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+const base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+const settings = { timeoutMs: 300, retries: 2 };
+const paid = (path: string) => new Request(`${base}${path}`, { headers: { 'PAYMENT-SIGNATURE': 'signed' } });
+
+try {
+  assert.deepEqual(transportSettings(), { timeoutMs: 30_000, retries: 2 }, 'defaults without config.json');
+  assert.deepEqual(transportSettings({ timeoutMs: 1000, retries: 0.5 }), { timeoutMs: 1000, retries: 0 });
+
+  // ── Retries ───────────────────────────────────
+  const flaky = await sendWithRetry(new Request(`${base}/flaky`), settings);
+  assert.equal(flaky.status, 200);
+  assert.equal(hits.get('/flaky'), 3);
+
+  hits.clear();
+  assert.equal((await sendWithRetry(new Request(`${base}/flaky`), { ...settings, retries: 1 })).status, 503, 'the last answer is returned');
+  hits.clear();
+  assert.equal((await sendWithRetry(paid('/flaky'), settings)).status, 503, 'a paid request\'s answer is final');
+  assert.equal(hits.get('/flaky'), 1);
+
+  // ── Timeouts ──────────────────────────────────
+  assert.equal(await (await sendWithRetry(paid('/slow-once'), settings)).text(), 'ok', 'no answer at all: resent, same header');
+  assert.equal(hits.get('/slow-once'), 2);
+
+  const started = Date.now();
+  await assert.rejects(sendWithRetry(new Request(`${base}/hang`), { timeoutMs: 200, retries: 1 }), (err: unknown) => {
+    assert.ok(err instanceof RequestTimeoutError);
+    assert.equal(err.message, `No response from ${new URL(base).host} within 0.2s (after 2 attempts)`);
+    return true;
+  });
+  assert.equal(hits.get('/hang'), 2);
+  assert.ok(Date.now() - started < 2000);
+
+  const caller = new AbortController();
+  const aborted = sendWithRetry(new Request(`${base}/hang`, { signal: caller.signal }), { timeoutMs: 5000, retries: 2 });
+  setTimeout(() => caller.abort(), 50);
+  await assert.rejects(aborted, (err: unknown) => !(err instanceof RequestTimeoutError), 'a caller\'s abort isn\'t retried');
+  assert.equal(hits.get('/hang'), 3);
+
+  // ── Bodies ────────────────────────────────────
+  const stalled = await readBody(await fetch(`${base}/stall`), { timeoutMs: 200 });
+  assert.deepEqual([stalled.stopped, stalled.body.toString()], ['timeout', 'partial']);
+  await assert.rejects(readText(await fetch(`${base}/stall`), 200), BodyTimeoutError);
+
+  const capped = await readBody(await fetch(`${base}/big`), { timeoutMs: 1000, maxBytes: 1024 });
+  assert.equal(capped.stopped, 'size');
+  assert.ok(capped.body.length >= 1024 && capped.body.length < 64 * 1024);
+  const whole = await readBody(await fetch(`${base}/big`), { timeoutMs: 1000 });
+  assert.deepEqual([whole.stopped, whole.body.length], ['complete', 64 * 1024]);
+
+  console.log('PASS: request timeouts, retries and body deadlines');
+} finally {
+  server.closeAllConnections();
+  server.close();
+  rmSync(home, { recursive: true, force: true });
+}